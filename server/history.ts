@@ -0,0 +1,85 @@
+import type { ChatContentPart, ChatMessage, ToolCallRequest } from '../src/lib/provider';
+import { SUMMARY_PREFIX } from '../src/lib/context';
+import { WRAP_UP_INSTRUCTION } from '../src/lib/session';
+import { TOOLS } from '../src/lib/tools';
+
+// The history the browser sends is rebuilt message by message, keeping only what the app itself
+// would put there: the child's words and pictures, the buddy's replies, calls to our own tools and
+// their results. System messages are only let through when they're ours: the wrap-up instruction,
+// and a summary this proxy wrote for the same conversation.
+
+const MAX_MESSAGES = 200;
+const MAX_TEXT = 4_000;
+const MAX_TOOL_ARGUMENTS = 1_000;
+const MAX_TOOL_RESULT = 500;
+
+const TOOL_NAMES = new Set(TOOLS.map(tool => tool.name));
+
+const readText = (value: unknown) => (typeof value === 'string' ? value.slice(0, MAX_TEXT) : null);
+
+const readContentPart = (value: unknown): ChatContentPart | null => {
+    const part = (value ?? {}) as Record<string, unknown>;
+    if (part.type === 'text') {
+        const text = readText(part.text);
+        return text === null ? null : { type: 'text', text };
+    }
+    const image = (part.image_url ?? {}) as Record<string, unknown>;
+    if (part.type === 'image_url' && typeof image.url === 'string' && image.url.startsWith('data:image/')) {
+        const detail = image.detail === 'low' || image.detail === 'high' || image.detail === 'auto' ? image.detail : undefined;
+        return { type: 'image_url', image_url: detail ? { url: image.url, detail } : { url: image.url } };
+    }
+    return null;
+};
+
+const readToolCall = (value: unknown): ToolCallRequest | null => {
+    const call = (value ?? {}) as Record<string, unknown>;
+    const fn = (call.function ?? {}) as Record<string, unknown>;
+    if (typeof call.id !== 'string' || !call.id || call.id.length > 100) return null;
+    if (typeof fn.name !== 'string' || !TOOL_NAMES.has(fn.name)) return null;
+    if (typeof fn.arguments !== 'string' || fn.arguments.length > MAX_TOOL_ARGUMENTS) return null;
+    return { id: call.id, type: 'function', function: { name: fn.name, arguments: fn.arguments } };
+};
+
+// `summaries` are the ones this proxy wrote for the conversation the history belongs to
+export const readHistory = (value: unknown, summaries: readonly string[]): ChatMessage[] => {
+    if (!Array.isArray(value)) return [];
+    const history: ChatMessage[] = [];
+    // Tool results are only kept for calls the assistant message right before them made
+    let openCalls = new Set<string>();
+
+    for (const item of value.slice(-MAX_MESSAGES)) {
+        const message = (item ?? {}) as Record<string, unknown>;
+
+        if (message.role === 'user') {
+            openCalls = new Set();
+            if (Array.isArray(message.content)) {
+                const parts = message.content.map(readContentPart).filter((part): part is ChatContentPart => part !== null);
+                if (parts.length > 0) history.push({ role: 'user', content: parts });
+            } else {
+                const text = readText(message.content);
+                if (text !== null) history.push({ role: 'user', content: text });
+            }
+        } else if (message.role === 'assistant') {
+            const content = readText(message.content) ?? '';
+            const calls = Array.isArray(message.tool_calls)
+                ? message.tool_calls.map(readToolCall).filter((call): call is ToolCallRequest => call !== null)
+                : [];
+            openCalls = new Set(calls.map(call => call.id));
+            history.push(calls.length > 0 ? { role: 'assistant', content, tool_calls: calls } : { role: 'assistant', content });
+        } else if (message.role === 'tool') {
+            if (typeof message.tool_call_id !== 'string' || !openCalls.has(message.tool_call_id)) continue;
+            openCalls.delete(message.tool_call_id);
+            const content = typeof message.content === 'string' ? message.content.slice(0, MAX_TOOL_RESULT) : '';
+            history.push({ role: 'tool', tool_call_id: message.tool_call_id, content });
+        } else if (message.role === 'system') {
+            openCalls = new Set();
+            if (message.content === WRAP_UP_INSTRUCTION) {
+                history.push({ role: 'system', content: WRAP_UP_INSTRUCTION });
+            } else if (typeof message.content === 'string' && message.content.startsWith(SUMMARY_PREFIX)) {
+                const summary = message.content.slice(SUMMARY_PREFIX.length);
+                if (summaries.includes(summary)) history.push({ role: 'system', content: `${SUMMARY_PREFIX}${summary}` });
+            }
+        }
+    }
+    return history;
+};
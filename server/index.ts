@@ -0,0 +1,331 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from '../src/lib/openai';
+import type { PromptContext, ProviderReply, ReplyStreamHandlers } from '../src/lib/provider';
+import { DEFAULT_LANGUAGE, isLanguage } from '../src/lib/i18n';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, getPersona, toPersonaPrompt } from '../src/lib/persona';
+import { MAX_AGE, MIN_AGE, type ChildPrompt } from '../src/lib/profile';
+import { isLessonGoal } from '../src/lib/lessons';
+import type { ProxyEvent } from '../src/lib/proxy';
+import { estimateTokens } from '../src/lib/context';
+import { classifyError } from '../src/lib/errors';
+import { createSessionLimiter, type LimitVerdict } from './limits';
+import { readHistory } from './history';
+
+// Optional proxy that keeps the API key on this machine. The browser talks to these endpoints
+// instead of OpenAI, and each conversation is held to a request rate and a token budget.
+//
+//   OPENAI_API_KEY=sk-... npm run proxy
+//   VITE_PROXY_URL=http://localhost:8787 npm run dev
+
+const env = process.env;
+
+const config = {
+    port: Number(env.PORT ?? 8787),
+    host: env.PROXY_HOST ?? '127.0.0.1', // Only this machine by default; set 0.0.0.0 to serve the home network
+    apiKey: env.OPENAI_API_KEY ?? '',
+    baseURL: env.OPENAI_BASE_URL, // Point at a local OpenAI-compatible server instead
+    model: env.OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL,
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN ?? 'http://localhost:5173',
+    maxBodyBytes: 15 * 1024 * 1024, // Room for a base64 photo
+};
+
+if (!config.apiKey && !config.baseURL) {
+    console.error("Set OPENAI_API_KEY (or OPENAI_BASE_URL for a local server) before starting the proxy.");
+    process.exit(1);
+}
+
+const provider = createOpenAIProvider({
+    kind: config.baseURL ? 'compatible' : 'openai',
+    label: config.baseURL ? `Local (${config.model})` : 'OpenAI',
+    apiKey: config.apiKey || 'local',
+    baseURL: config.baseURL,
+    model: config.model,
+});
+
+const limiter = createSessionLimiter({
+    requestsPerMinute: Number(env.PROXY_REQUESTS_PER_MINUTE ?? 12),
+    tokensPerSession: Number(env.PROXY_TOKENS_PER_SESSION ?? 40_000),
+    sessionTtlMs: 60 * 60 * 1000,
+    sessionsPerHour: Number(env.PROXY_SESSIONS_PER_HOUR ?? 10),
+    tokensPerClientPerDay: Number(env.PROXY_TOKENS_PER_CLIENT_PER_DAY ?? 200_000),
+    tokensPerDay: Number(env.PROXY_TOKENS_PER_DAY ?? 1_000_000),
+});
+
+class HttpError extends Error {
+    status: number;
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const readJson = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+    new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > config.maxBodyBytes) {
+                reject(new HttpError(413, "Request is too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch {
+                reject(new HttpError(400, "Request body must be JSON"));
+            }
+        });
+        req.on('error', reject);
+    });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+// Limits are counted per address; behind a reverse proxy every family shares one
+const clientOf = (req: IncomingMessage) => req.socket.remoteAddress ?? 'unknown';
+
+const requireSessionId = (body: Record<string, unknown>) => {
+    if (typeof body.sessionId !== 'string' || !body.sessionId) throw new HttpError(400, "sessionId is required");
+    return body.sessionId;
+};
+
+const MAX_PERSONA_FIELD = 500; // Parents write these, but keep the prompt from growing without bound
+const MAX_TRANSCRIPT = 20_000;
+
+const readStrings = (value: unknown, maxItems: number, maxLength: number) =>
+    Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).slice(0, maxItems).map(item => item.trim().slice(0, maxLength))
+        : [];
+
+const readChild = (value: unknown): ChildPrompt | undefined => {
+    const child = (value ?? {}) as Record<string, unknown>;
+    if (typeof child.name !== 'string' || !child.name.trim()) return undefined;
+    const age = Number(child.age);
+    return {
+        name: child.name.trim().slice(0, 40),
+        age: Number.isFinite(age) ? Math.min(MAX_AGE, Math.max(MIN_AGE, Math.round(age))) : 6,
+        interests: readStrings(child.interests, 10, 40),
+        memories: readStrings(child.memories, 20, 100),
+    };
+};
+
+// Only pick out the fields we know, so the browser can't smuggle anything else into the prompt
+const readContext = (body: Record<string, unknown>): PromptContext => {
+    const context = (body.context ?? {}) as Record<string, unknown>;
+    const persona = (context.persona ?? {}) as Record<string, unknown>;
+    const fallback = toPersonaPrompt(getPersona(BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID));
+    const field = (key: keyof typeof fallback) => {
+        const value = persona[key];
+        return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_PERSONA_FIELD) : fallback[key];
+    };
+
+    return {
+        language: isLanguage(context.language) ? context.language : DEFAULT_LANGUAGE,
+        persona: { name: field('name'), personality: field('personality'), greetingStyle: field('greetingStyle') },
+        child: readChild(context.child),
+        lesson: isLessonGoal(context.lesson) ? context.lesson : undefined,
+    };
+};
+
+const refuse = (res: ServerResponse, verdict: Extract<LimitVerdict, { ok: false }>) => {
+    if (verdict.retryAfterSeconds) res.setHeader('Retry-After', String(verdict.retryAfterSeconds));
+    sendJson(res, verdict.status, { error: verdict.reason, kind: verdict.kind });
+};
+
+const checkLimits = (req: IncomingMessage, res: ServerResponse, sessionId: string) => {
+    const verdict = limiter.checkRequest(sessionId, clientOf(req));
+    if (verdict.ok) return true;
+    refuse(res, verdict);
+    return false;
+};
+
+// Streams the provider's reply as newline-delimited JSON events (see ProxyEvent)
+const streamReply = async (
+    res: ServerResponse,
+    sessionId: string,
+    run: (handlers: ReplyStreamHandlers) => Promise<ProviderReply>,
+    isNewSession = false
+) => {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    const send = (event: ProxyEvent) => res.write(`${JSON.stringify(event)}\n`);
+    if (isNewSession) send({ type: 'session', sessionId });
+
+    // The browser went away (the chat was reset or the tab closed): stop the model instead of paying for
+    // a reply nobody reads. The response closes, not the request, which has long been read by now.
+    const upstream = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) upstream.abort();
+    });
+    let streamed = '';
+
+    try {
+        const reply = await run({
+            onTextDelta: delta => {
+                streamed += delta;
+                send({ type: 'text', delta });
+            },
+            onToolCall: call => send({ type: 'tool_call', call }),
+            signal: upstream.signal,
+        });
+        limiter.recordUsage(sessionId, reply.usage ?? { promptTokens: 0, completionTokens: estimateTokens(reply.text) });
+        send({ type: 'done', reply });
+    } catch (e) {
+        if (upstream.signal.aborted) {
+            // No usage comes back from a cancelled request; count what was streamed before it stopped
+            limiter.recordUsage(sessionId, { promptTokens: 0, completionTokens: estimateTokens(streamed) });
+            return;
+        }
+        console.error("Provider request failed", e);
+        // The kind lets the app tell a bad key or a busy model from its own problems, and retry the right ones
+        send({ type: 'error', message: e instanceof Error ? e.message : "The model request failed", kind: classifyError(e) });
+    }
+    res.end();
+};
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+    'GET /api/health': async (_req, res) => {
+        sendJson(res, 200, { ok: true, label: provider.label, moderation: provider.capabilities.moderation });
+    },
+
+    // The only route that takes no session id: it hands out a new one, sent as the first event
+    'POST /api/conversation/start': async (req, res) => {
+        const body = await readJson(req);
+        if (typeof body.image !== 'string' || !body.image.startsWith('data:image/')) {
+            throw new HttpError(400, "image must be a data: URL");
+        }
+        const opened = limiter.openSession(clientOf(req));
+        if (!opened.ok) {
+            refuse(res, opened);
+            return;
+        }
+        const sessionId = opened.sessionId!;
+        if (!checkLimits(req, res, sessionId)) return;
+        const image = body.image;
+        await streamReply(res, sessionId, handlers => provider.startFromImage(image, readContext(body), handlers), true);
+    },
+
+    'POST /api/conversation/continue': async (req, res) => {
+        const body = await readJson(req);
+        const sessionId = requireSessionId(body);
+        if (!Array.isArray(body.history) || body.history.length === 0) throw new HttpError(400, "history must be a non-empty array");
+        if (!checkLimits(req, res, sessionId)) return;
+        const history = readHistory(body.history, limiter.summariesOf(sessionId));
+        if (history.length === 0) throw new HttpError(400, "history has no usable messages");
+        await streamReply(res, sessionId, handlers => provider.continueConversation(history, readContext(body), handlers));
+    },
+
+    'POST /api/describe': async (req, res) => {
+        const body = await readJson(req);
+        const sessionId = requireSessionId(body);
+        if (typeof body.image !== 'string' || !body.image.startsWith('data:image/')) {
+            throw new HttpError(400, "image must be a data: URL");
+        }
+        if (!provider.describeImage) {
+            sendJson(res, 501, { error: "This backend can't describe pictures" });
+            return;
+        }
+        if (!checkLimits(req, res, sessionId)) return;
+        const reply = await provider.describeImage(body.image);
+        limiter.recordUsage(sessionId, reply.usage ?? { promptTokens: 0, completionTokens: estimateTokens(reply.text) });
+        sendJson(res, 200, reply);
+    },
+
+    'POST /api/summarize': async (req, res) => {
+        const body = await readJson(req);
+        const sessionId = requireSessionId(body);
+        if (typeof body.transcript !== 'string' || !body.transcript.trim()) throw new HttpError(400, "transcript is required");
+        if (!provider.summarize) {
+            sendJson(res, 501, { error: "This backend can't summarize" });
+            return;
+        }
+        if (!checkLimits(req, res, sessionId)) return;
+        const previousSummary = typeof body.previousSummary === 'string' ? body.previousSummary.slice(0, MAX_TRANSCRIPT) : null;
+        const reply = await provider.summarize(body.transcript.slice(0, MAX_TRANSCRIPT), previousSummary);
+        if (reply.text) limiter.rememberSummary(sessionId, reply.text);
+        limiter.recordUsage(sessionId, reply.usage ?? { promptTokens: 0, completionTokens: estimateTokens(reply.text) });
+        sendJson(res, 200, reply);
+    },
+
+    'POST /api/memories': async (req, res) => {
+        const body = await readJson(req);
+        const sessionId = requireSessionId(body);
+        if (typeof body.transcript !== 'string' || !body.transcript.trim()) throw new HttpError(400, "transcript is required");
+        if (!provider.extractMemories) {
+            sendJson(res, 501, { error: "This backend can't extract memories" });
+            return;
+        }
+        if (!checkLimits(req, res, sessionId)) return;
+        const transcript = body.transcript.slice(0, MAX_TRANSCRIPT);
+        const facts = await provider.extractMemories(transcript, readContext(body));
+        limiter.recordUsage(sessionId, { promptTokens: estimateTokens(transcript), completionTokens: estimateTokens(facts.join('\n')) });
+        sendJson(res, 200, { facts });
+    },
+
+    'POST /api/story': async (req, res) => {
+        const body = await readJson(req);
+        const sessionId = requireSessionId(body);
+        if (typeof body.transcript !== 'string' || !body.transcript.trim()) throw new HttpError(400, "transcript is required");
+        if (!provider.writeStory) {
+            sendJson(res, 501, { error: "This backend can't write stories" });
+            return;
+        }
+        if (!checkLimits(req, res, sessionId)) return;
+        const draft = await provider.writeStory(body.transcript.slice(0, MAX_TRANSCRIPT), readContext(body));
+        limiter.recordUsage(sessionId, draft.usage ?? { promptTokens: 0, completionTokens: estimateTokens(JSON.stringify(draft.pages)) });
+        sendJson(res, 200, draft);
+    },
+
+    'POST /api/moderate': async (req, res) => {
+        const body = await readJson(req);
+        const sessionId = requireSessionId(body);
+        if (typeof body.text !== 'string') throw new HttpError(400, "text is required");
+        if (!provider.moderate) {
+            sendJson(res, 501, { error: "This backend has no moderation endpoint" });
+            return;
+        }
+        if (!checkLimits(req, res, sessionId)) return;
+        const text = body.text.slice(0, MAX_TRANSCRIPT);
+        const result = await provider.moderate(text);
+        // The moderation endpoint doesn't report usage; count the text so it still comes out of the budget
+        limiter.recordUsage(sessionId, { promptTokens: estimateTokens(text), completionTokens: 0 });
+        sendJson(res, 200, result);
+    },
+};
+
+const server = createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    const route = routes[`${req.method} ${req.url?.split('?')[0]}`];
+    if (!route) {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+    }
+
+    try {
+        await route(req, res);
+    } catch (e) {
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        const status = e instanceof HttpError ? e.status : 500;
+        if (status === 500) console.error("Request failed", e);
+        sendJson(res, status, { error: e instanceof Error ? e.message : "Something went wrong" });
+    }
+});
+
+server.listen(config.port, config.host, () => {
+    console.log(`Magic Buddy proxy (${provider.label}) listening on http://${config.host}:${config.port}`);
+});
@@ -0,0 +1,145 @@
+import { randomUUID } from 'node:crypto';
+import type { ProviderErrorKind } from '../src/lib/errors';
+import type { TokenUsage } from '../src/lib/provider';
+
+// Guard rails for the proxy. Conversations only get an id from /api/conversation/start, so a caller
+// can't make up a fresh one per request to dodge the per-conversation limits. Each client (by its
+// address) is also held to a number of new conversations and tokens, and the whole proxy to a daily budget.
+
+export interface LimitConfig {
+    requestsPerMinute: number; // Per conversation
+    tokensPerSession: number;
+    sessionTtlMs: number; // Forget sessions that have been idle this long
+    sessionsPerHour: number; // New conversations one client may start
+    tokensPerClientPerDay: number; // Across all of one client's conversations
+    tokensPerDay: number; // Everything the proxy spends, whoever asks
+}
+
+interface SessionUsage {
+    client: string;
+    requestTimes: number[];
+    tokens: number;
+    lastSeen: number;
+    summaries: string[]; // The latest summaries written for it, so the history can only carry ours
+}
+
+// Tokens counted over a day that starts with the first request in it
+interface DailyTokens {
+    since: number;
+    tokens: number;
+}
+
+interface ClientUsage {
+    sessionStarts: number[];
+    day: DailyTokens;
+    lastSeen: number;
+}
+
+export type LimitVerdict = { ok: true } | { ok: false; status: number; reason: string; retryAfterSeconds?: number; kind?: ProviderErrorKind };
+
+const KEPT_SUMMARIES = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const createSessionLimiter = (config: LimitConfig) => {
+    const sessions = new Map<string, SessionUsage>();
+    const clients = new Map<string, ClientUsage>();
+    let total: DailyTokens = { since: Date.now(), tokens: 0 };
+
+    const currentDay = (day: DailyTokens, now: number): DailyTokens => (now - day.since >= DAY_MS ? { since: now, tokens: 0 } : day);
+
+    const getClient = (client: string, now: number) => {
+        let usage = clients.get(client);
+        if (!usage) {
+            usage = { sessionStarts: [], day: { since: now, tokens: 0 }, lastSeen: now };
+            clients.set(client, usage);
+        }
+        usage.day = currentDay(usage.day, now);
+        usage.lastSeen = now;
+        return usage;
+    };
+
+    const prune = (now: number) => {
+        for (const [id, session] of sessions) {
+            if (now - session.lastSeen > config.sessionTtlMs) sessions.delete(id);
+        }
+        for (const [client, usage] of clients) {
+            if (now - usage.lastSeen > DAY_MS) clients.delete(client);
+        }
+        total = currentDay(total, now);
+    };
+
+    const retryAfter = (since: number, windowMs: number, now: number) => Math.max(1, Math.ceil((windowMs - (now - since)) / 1000));
+
+    // The budgets every request has to fit in, whichever conversation it belongs to
+    const checkBudgets = (client: ClientUsage, now: number): LimitVerdict => {
+        if (total.tokens >= config.tokensPerDay) {
+            return { ok: false, status: 429, reason: "The buddy has done all its talking for today. Please try again tomorrow.", retryAfterSeconds: retryAfter(total.since, DAY_MS, now) };
+        }
+        if (client.day.tokens >= config.tokensPerClientPerDay) {
+            return { ok: false, status: 429, reason: "This device has used up today's token allowance.", retryAfterSeconds: retryAfter(client.day.since, DAY_MS, now) };
+        }
+        return { ok: true };
+    };
+
+    // Starts a conversation for the client and hands back its id, if the client may start another one
+    const openSession = (client: string, now = Date.now()): LimitVerdict & { sessionId?: string } => {
+        prune(now);
+        const usage = getClient(client, now);
+        const budget = checkBudgets(usage, now);
+        if (!budget.ok) return budget;
+
+        usage.sessionStarts = usage.sessionStarts.filter(t => now - t < HOUR_MS);
+        if (usage.sessionStarts.length >= config.sessionsPerHour) {
+            return { ok: false, status: 429, reason: "Too many new conversations, take a little break.", retryAfterSeconds: retryAfter(usage.sessionStarts[0], HOUR_MS, now) };
+        }
+        usage.sessionStarts.push(now);
+
+        const sessionId = randomUUID();
+        sessions.set(sessionId, { client, requestTimes: [], tokens: 0, lastSeen: now, summaries: [] });
+        return { ok: true, sessionId };
+    };
+
+    // Checks the limits and, if allowed, counts the request. Only ids handed out by openSession are accepted,
+    // and only from the client they were handed to.
+    const checkRequest = (sessionId: string, client: string, now = Date.now()): LimitVerdict => {
+        prune(now);
+        const session = sessions.get(sessionId);
+        if (!session || session.client !== client) {
+            return { ok: false, status: 403, reason: "Unknown conversation. Please start a new one.", kind: 'sessionExpired' };
+        }
+        session.lastSeen = now;
+
+        const budget = checkBudgets(getClient(client, now), now);
+        if (!budget.ok) return budget;
+        if (session.tokens >= config.tokensPerSession) {
+            return { ok: false, status: 429, reason: "This conversation has used up its token allowance. Please start a new one." };
+        }
+
+        session.requestTimes = session.requestTimes.filter(t => now - t < 60_000);
+        if (session.requestTimes.length >= config.requestsPerMinute) {
+            return { ok: false, status: 429, reason: "Too many requests, slow down a little.", retryAfterSeconds: retryAfter(session.requestTimes[0], 60_000, now) };
+        }
+
+        session.requestTimes.push(now);
+        return { ok: true };
+    };
+
+    const recordUsage = (sessionId: string, usage: TokenUsage, now = Date.now()) => {
+        const tokens = usage.promptTokens + usage.completionTokens;
+        total.tokens += tokens;
+        const session = sessions.get(sessionId);
+        if (!session) return;
+        session.tokens += tokens;
+        getClient(session.client, now).day.tokens += tokens;
+    };
+
+    const rememberSummary = (sessionId: string, summary: string) => {
+        const session = sessions.get(sessionId);
+        if (session) session.summaries = [...session.summaries, summary].slice(-KEPT_SUMMARIES);
+    };
+
+    const summariesOf = (sessionId: string): readonly string[] => sessions.get(sessionId)?.summaries ?? [];
+
+    return { openSession, checkRequest, recordUsage, rememberSummary, summariesOf };
+};
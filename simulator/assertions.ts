@@ -0,0 +1,56 @@
+import type { Language } from '../src/lib/i18n';
+import { checkBuddyOutput, DEFAULT_SAFETY_SETTINGS } from '../src/lib/safety';
+import { createSentenceSplitter } from '../src/utils/sentences';
+import { findWord } from '../src/utils/words';
+import type { ScenarioExpectations } from './scenario';
+import type { TranscriptTurn } from './run';
+
+// Checks a transcript against a scenario's expectations. Each failure names the buddy turn (counting from 1)
+// so it can be found in the printed transcript.
+
+const COLOUR_WORDS: Record<Language, string[]> = {
+    en: ['red', 'blue', 'green', 'yellow', 'orange', 'purple', 'pink', 'black', 'white', 'brown', 'grey', 'gray'],
+    es: ['rojo', 'roja', 'azul', 'verde', 'amarillo', 'amarilla', 'naranja', 'morado', 'morada', 'rosa', 'negro', 'negra', 'blanco', 'blanca', 'marrón', 'gris'],
+    hi: ['लाल', 'नीला', 'नीली', 'हरा', 'हरी', 'पीला', 'पीली', 'नारंगी', 'बैंगनी', 'गुलाबी', 'काला', 'काली', 'सफ़ेद', 'भूरा', 'स्लेटी'],
+};
+
+const splitSentences = (text: string) => {
+    const splitter = createSentenceSplitter();
+    const sentences = splitter.push(text);
+    const rest = splitter.flush();
+    return rest ? [...sentences, rest] : sentences;
+};
+
+export const checkTranscript = (transcript: TranscriptTurn[], expect: ScenarioExpectations, language: Language): string[] => {
+    const failures: string[] = [];
+    let buddyTurn = 0;
+
+    transcript.forEach((turn, i) => {
+        if (turn.speaker !== 'buddy') return;
+        buddyTurn++;
+        const at = `Buddy turn ${buddyTurn}`;
+        const sentences = splitSentences(turn.text);
+
+        if (expect.maxSentences !== undefined && sentences.length > expect.maxSentences) {
+            failures.push(`${at}: ${sentences.length} sentences (at most ${expect.maxSentences})`);
+        }
+        if (expect.asksQuestion && !/[?？¿]/.test(turn.text)) {
+            failures.push(`${at}: doesn't ask a question`);
+        }
+        if (expect.noBlockedWords) {
+            const blocked = sentences.flatMap(sentence => checkBuddyOutput(sentence, DEFAULT_SAFETY_SETTINGS).interventions)
+                .filter(intervention => intervention.action === 'blocked');
+            blocked.forEach(intervention => failures.push(`${at}: would be blocked (${intervention.detail})`));
+        }
+
+        const childTurn = transcript[i - 1];
+        if (expect.backgroundOnColour && childTurn?.speaker === 'child' && !childTurn.blocked) {
+            const colour = findWord(childTurn.text, COLOUR_WORDS[language]);
+            if (colour && !turn.toolCalls.some(call => call.name === 'change_background' || call.name === 'set_scene')) {
+                failures.push(`${at}: the child said "${colour}" but the background didn't change`);
+            }
+        }
+    });
+
+    return failures;
+};
@@ -0,0 +1,217 @@
+import { readFile, readdir, stat, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import OpenAI from 'openai';
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from '../src/lib/openai';
+import { createDemoProvider } from '../src/lib/demo';
+import type { ConversationProvider, PromptContext } from '../src/lib/provider';
+import { LANGUAGES } from '../src/lib/i18n';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, getPersona, toPersonaPrompt } from '../src/lib/persona';
+import { parseScenario, type Scenario } from './scenario';
+import { formatTranscript, runScenario, scriptedChild, type ChildLines, type TranscriptTurn } from './run';
+import { checkTranscript } from './assertions';
+import { checkConversationMachine } from './machine';
+
+// Replays scripted conversations against a provider, without a browser or a microphone, and checks
+// the replies. Runs offline against Demo Mode or any local OpenAI-compatible server. The conversation
+// state machine gets a few checks of its own (machine.ts) on every run.
+//
+//   npm run simulate                                          # every scenario, Demo Mode
+//   npm run simulate -- simulator/scenarios/dino-colours.json --provider local --base-url http://localhost:11434/v1 --model llava
+//   npm run simulate -- --provider openai --golden simulator/golden   (OPENAI_API_KEY in the environment)
+
+const USAGE = `Usage: npm run simulate -- [scenario files or folders] [options]
+
+  --provider demo|openai|local   Who plays the buddy (default: demo)
+  --base-url URL                 The local server (for --provider local)
+  --model NAME                   Model for the buddy and a simulated child (default: ${DEFAULT_OPENAI_MODEL})
+  --golden DIR                   Compare transcripts with DIR/<scenario>.txt, saving any that are missing
+  --update                       With --golden, overwrite the saved transcripts instead
+  --json                         Print transcripts as JSON`;
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const PUBLIC_DIR = path.join(ROOT, 'public');
+const DEFAULT_SCENARIOS = path.join(ROOT, 'simulator', 'scenarios');
+
+const IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+};
+
+const { values: options, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        provider: { type: 'string', default: 'demo' },
+        'base-url': { type: 'string' },
+        model: { type: 'string', default: DEFAULT_OPENAI_MODEL },
+        golden: { type: 'string' },
+        update: { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+    },
+});
+
+const fail = (message: string): never => {
+    console.error(message);
+    process.exit(2);
+};
+
+if (options.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+// The buddy, plus a plain client for playing the child when a scenario asks for one
+const setUpProvider = (): { provider: ConversationProvider; client: OpenAI | null } => {
+    const apiKey = process.env.OPENAI_API_KEY ?? '';
+    switch (options.provider) {
+        case 'demo':
+            return { provider: createDemoProvider(null, { simulateDelays: false }), client: null };
+        case 'openai':
+            if (!apiKey) fail("Set OPENAI_API_KEY to simulate against OpenAI.");
+            return {
+                provider: createOpenAIProvider({ kind: 'openai', label: 'OpenAI', apiKey, model: options.model }),
+                client: new OpenAI({ apiKey }),
+            };
+        case 'local': {
+            const baseURL = options['base-url'] ?? fail("--provider local needs --base-url, e.g. http://localhost:11434/v1");
+            return {
+                provider: createOpenAIProvider({ kind: 'compatible', label: `Local (${options.model})`, apiKey: apiKey || 'local', baseURL, model: options.model }),
+                client: new OpenAI({ apiKey: apiKey || 'local', baseURL }),
+            };
+        }
+        default:
+            return fail(`Unknown provider '${options.provider}'.\n\n${USAGE}`);
+    }
+};
+
+const findScenarioFiles = async (inputs: string[]) => {
+    const files: string[] = [];
+    for (const input of inputs.length > 0 ? inputs : [DEFAULT_SCENARIOS]) {
+        const full = path.resolve(input);
+        if ((await stat(full)).isDirectory()) {
+            const names = (await readdir(full)).filter(name => name.endsWith('.json')).sort();
+            files.push(...names.map(name => path.join(full, name)));
+        } else {
+            files.push(full);
+        }
+    }
+    return files;
+};
+
+const loadScenario = async (file: string): Promise<Scenario> => {
+    try {
+        const data: unknown = JSON.parse(await readFile(file, 'utf8'));
+        return parseScenario(data, path.basename(file, '.json'), image => path.resolve(path.dirname(file), image));
+    } catch (e) {
+        return fail(`${path.relative(ROOT, file)}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
+
+// What the App would hand to startFromImage: the picture itself for providers that can see,
+// otherwise its path, which is how Demo Mode finds the script written for a bundled picture
+const loadPicture = async (provider: ConversationProvider, image: string) => {
+    if (!provider.capabilities.vision) {
+        const inPublic = path.relative(PUBLIC_DIR, image);
+        return inPublic.startsWith('..') ? image : `/${inPublic.split(path.sep).join('/')}`;
+    }
+    const type = IMAGE_TYPES[path.extname(image).toLowerCase()];
+    if (!type) fail(`${image}: not a picture type the simulator knows`);
+    // The browser turns SVGs into PNGs first (utils/image.ts); there's no canvas here to do that
+    if (type === 'image/svg+xml' && provider.id === 'openai') fail(`${image}: OpenAI can't look at SVGs. Use a PNG or JPEG for this scenario.`);
+    return `data:${type};base64,${(await readFile(image)).toString('base64')}`;
+};
+
+// A model playing the child, for conversations nobody scripted
+const simulatedChild = (client: OpenAI, scenario: Scenario, description: string): ChildLines => async (transcript) => {
+    const conversation = transcript.map(turn => `${turn.speaker === 'buddy' ? 'Buddy' : 'Child'}: ${turn.text}`).join('\n');
+    const response = await client.chat.completions.create({
+        model: options.model,
+        messages: [
+            {
+                role: 'system',
+                content: `You are playing a child in a test of a picture-chat app for kids. ${description}\n` +
+                    `Answer the buddy's last line the way that child would: one short sentence in ${LANGUAGES[scenario.language].promptName}, nothing else.`,
+            },
+            { role: 'user', content: conversation },
+        ],
+    });
+    return response.choices[0]?.message?.content?.trim() || null;
+};
+
+// Null when it matches (or was just saved), otherwise what differs
+const compareWithGolden = async (scenario: Scenario, text: string): Promise<string | null> => {
+    const dir = path.resolve(options.golden!);
+    const file = path.join(dir, `${scenario.name}.txt`);
+    const saved = await readFile(file, 'utf8').catch(() => null);
+    if (saved === null || options.update) {
+        await mkdir(dir, { recursive: true });
+        await writeFile(file, `${text}\n`);
+        console.log(`  saved ${path.relative(process.cwd(), file)}`);
+        return null;
+    }
+
+    const expected = saved.trimEnd().split('\n');
+    const actual = text.split('\n');
+    const line = expected.findIndex((expectedLine, i) => expectedLine !== actual[i]);
+    if (line === -1 && expected.length === actual.length) return null;
+    const at = line === -1 ? expected.length : line;
+    return `differs from ${path.relative(process.cwd(), file)} at line ${at + 1}:\n    expected: ${expected[at] ?? '(nothing)'}\n    got:      ${actual[at] ?? '(nothing)'}`;
+};
+
+const main = async () => {
+    const { provider, client } = setUpProvider();
+    const files = await findScenarioFiles(positionals);
+    const results: { scenario: string; transcript: TranscriptTurn[]; failures: string[] }[] = [];
+
+    for (const file of files) {
+        const scenario = await loadScenario(file);
+        const context: PromptContext = {
+            language: scenario.language,
+            persona: toPersonaPrompt(getPersona(BUILT_IN_PERSONAS, scenario.persona ?? DEFAULT_PERSONA_ID)),
+            lesson: scenario.lesson,
+        };
+
+        let child = scriptedChild(scenario.child);
+        if (scenario.simulatedChild) {
+            const model = client ?? fail(`${scenario.name}: a simulated child needs a model, so use --provider openai or local`);
+            child = simulatedChild(model, scenario, scenario.simulatedChild.description);
+        }
+
+        let transcript: TranscriptTurn[] = [];
+        const failures: string[] = [];
+        try {
+            transcript = await runScenario(provider, scenario, await loadPicture(provider, scenario.image), context, child);
+            failures.push(...checkTranscript(transcript, scenario.expect, scenario.language));
+            if (options.golden) {
+                const difference = await compareWithGolden(scenario, formatTranscript(transcript));
+                if (difference) failures.push(difference);
+            }
+        } catch (e) {
+            failures.push(`The conversation failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        results.push({ scenario: scenario.name, transcript, failures });
+
+        if (!options.json) {
+            console.log(`\n=== ${scenario.name} (${provider.label}) ===`);
+            console.log(formatTranscript(transcript));
+            console.log(failures.length === 0 ? 'PASS' : failures.map(failure => `FAIL ${failure}`).join('\n'));
+        }
+    }
+
+    if (options.json) console.log(JSON.stringify(results, null, 2));
+    const failed = results.filter(result => result.failures.length > 0);
+    console.error(`\n${results.length - failed.length} of ${results.length} scenarios passed`);
+
+    // The state machine on its own, whatever the provider
+    const machineFailures = checkConversationMachine();
+    console.error(machineFailures.length === 0 ? 'State machine checks passed' : machineFailures.map(failure => `FAIL state machine: ${failure}`).join('\n'));
+    process.exit(failed.length > 0 || machineFailures.length > 0 ? 1 : 0);
+};
+
+main().catch(e => fail(e instanceof Error ? e.stack ?? e.message : String(e)));
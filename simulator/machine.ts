@@ -0,0 +1,63 @@
+import { conversationReducer, createConversationMachine, wasAccepted, type AppState, type ConversationEvent } from '../src/lib/conversationMachine';
+
+// A few walks through the conversation state machine on their own, for the flows the scenarios
+// never hit: events that don't fit, the child talking over the buddy, and a chat winding down.
+
+interface MachineCheck {
+    name: string;
+    events: ConversationEvent[];
+    expect: (AppState | null)[]; // The state after each event, null where it should be rejected
+}
+
+const START: ConversationEvent[] = [{ type: 'IMAGE_READY' }, { type: 'AI_REPLY' }];
+
+const CHECKS: MachineCheck[] = [
+    {
+        name: 'events that don\'t fit are rejected',
+        events: [
+            { type: 'USER_UTTERANCE', text: 'hello' },
+            { type: 'BARGE_IN' },
+            { type: 'RESUME' },
+            ...START,
+            { type: 'USER_UTTERANCE', text: 'too early' },
+            { type: 'TIMEOUT' },
+        ],
+        expect: [null, null, null, 'ANALYZING', 'SPEAKING', null, null],
+    },
+    {
+        name: 'barge-in goes from speaking to listening',
+        events: [...START, { type: 'BARGE_IN' }, { type: 'BARGE_IN' }, { type: 'USER_UTTERANCE', text: 'wait!' }],
+        expect: ['ANALYZING', 'SPEAKING', 'LISTENING', null, 'THINKING'],
+    },
+    {
+        name: 'the wrap-up ends the chat',
+        events: [
+            ...START,
+            { type: 'SPEECH_END', isEnding: false },
+            { type: 'USER_UTTERANCE', text: 'bye' },
+            { type: 'AI_REPLY' },
+            { type: 'SPEECH_END', isEnding: true },
+            { type: 'USER_UTTERANCE', text: 'one more thing' },
+            { type: 'BARGE_IN' },
+            { type: 'IMAGE_READY' },
+        ],
+        expect: ['ANALYZING', 'SPEAKING', 'LISTENING', 'THINKING', 'SPEAKING', 'ENDED', null, null, 'ANALYZING'],
+    },
+];
+
+// One failure per step that went somewhere else than expected
+export const checkConversationMachine = (): string[] => {
+    const failures: string[] = [];
+    for (const check of CHECKS) {
+        let machine = createConversationMachine();
+        check.events.forEach((event, i) => {
+            const from = machine.state;
+            machine = conversationReducer(machine, event, 0);
+            const got = wasAccepted(machine) ? machine.state : null;
+            if (got !== check.expect[i]) {
+                failures.push(`${check.name}: ${event.type} while ${from} went to ${got ?? 'rejected'} (expected ${check.expect[i] ?? 'rejected'})`);
+            }
+        });
+    }
+    return failures;
+};
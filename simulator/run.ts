@@ -0,0 +1,112 @@
+import type { ChatMessage, ConversationProvider, PromptContext, ProviderReply } from '../src/lib/provider';
+import { runToolCall, type ToolContext } from '../src/lib/tools';
+import { runTurnLoop } from '../src/lib/turn';
+import { checkChildInput, DEFAULT_SAFETY_SETTINGS } from '../src/lib/safety';
+import { MAX_STARS_PER_SESSION } from '../src/lib/lessons';
+import { getMessages } from '../src/lib/i18n';
+import { conversationReducer, createConversationMachine, wasAccepted, type ConversationEvent } from '../src/lib/conversationMachine';
+import type { Scenario } from './scenario';
+
+// Plays a scenario through a provider the way App.tsx does: the same tool registry, the same turn
+// loop (turn.ts) for models that only call tools, the same input safety check, and the same events
+// through the conversation state machine. Speech, session limits and the request trimming in
+// context.ts are left out; every request gets the full history.
+
+export interface TranscriptTurn {
+    speaker: 'buddy' | 'child';
+    text: string;
+    toolCalls: { name: string; arguments: string }[];
+    blocked?: boolean; // A child line the safety check stopped; the buddy redirected instead
+}
+
+// What the next child line should be, given the conversation so far (null to stop)
+export type ChildLines = (transcript: TranscriptTurn[]) => Promise<string | null>;
+
+export const scriptedChild = (lines: string[]): ChildLines => async (transcript) =>
+    lines[transcript.filter(turn => turn.speaker === 'child').length] ?? null;
+
+// Tools still validate and answer the model; the transcript records the calls since there's no screen to change
+const headlessToolContext = (scenario: Scenario): ToolContext => {
+    let stars = 0;
+    return {
+        updateScene: () => {},
+        showSticker: () => {},
+        endConversation: () => {},
+        lookAgain: () => {},
+        awardStar: () => (scenario.lesson && stars < MAX_STARS_PER_SESSION ? ++stars : null),
+        highlightRegion: () => {},
+    };
+};
+
+export const runScenario = async (
+    provider: ConversationProvider,
+    scenario: Scenario,
+    picture: string, // What startFromImage gets: a data URL, or the picture's path for providers that can't see
+    context: PromptContext,
+    nextChildLine: ChildLines
+): Promise<TranscriptTurn[]> => {
+    const transcript: TranscriptTurn[] = [];
+    const tools = headlessToolContext(scenario);
+
+    // A flow the App couldn't follow fails the scenario
+    let machine = createConversationMachine();
+    const send = (event: ConversationEvent) => {
+        const from = machine.state;
+        machine = conversationReducer(machine, event);
+        if (!wasAccepted(machine)) throw new Error(`The state machine rejected ${event.type} while ${from}`);
+    };
+
+    // One buddy turn, asking again (with the tool results) if the model only called tools
+    const buddyTurn = async (first: ProviderReply, history: ChatMessage[]) => {
+        // No signal, so the loop always finishes
+        const turn = (await runTurnLoop(first, history, {
+            runTool: call => runToolCall(call, tools),
+            askAgain: turnHistory => provider.continueConversation(turnHistory, context),
+        }))!;
+        const toolCalls = turn.toolCalls.map(call => ({ name: call.function.name, arguments: call.function.arguments }));
+        transcript.push({ speaker: 'buddy', text: turn.reply.text.trim(), toolCalls });
+        return turn.history;
+    };
+
+    send({ type: 'IMAGE_READY' });
+    const start = await provider.startFromImage(picture, context);
+    let history = await buddyTurn(start, [start.initialUserMessage]);
+    send({ type: 'AI_REPLY' });
+
+    const turns = scenario.simulatedChild?.turns ?? scenario.child.length;
+    for (let turn = 0; turn < turns; turn++) {
+        const line = await nextChildLine(transcript);
+        if (line === null) break;
+
+        // The buddy finished talking and listens for the child
+        send({ type: 'SPEECH_END', isEnding: false });
+        send({ type: 'USER_UTTERANCE', text: line });
+        const verdict = await checkChildInput(line, DEFAULT_SAFETY_SETTINGS, provider);
+        if (verdict.blocked) {
+            transcript.push({ speaker: 'child', text: line, toolCalls: [], blocked: true });
+            // Always the first redirect line, so transcripts stay comparable between runs
+            const redirect = getMessages(scenario.language).redirectReplies[0];
+            transcript.push({ speaker: 'buddy', text: redirect, toolCalls: [] });
+            history = [...history, { role: 'assistant', content: redirect }];
+            send({ type: 'AI_REPLY' });
+            continue;
+        }
+
+        transcript.push({ speaker: 'child', text: verdict.text, toolCalls: [] });
+        history = [...history, { role: 'user', content: verdict.text }];
+        history = await buddyTurn(await provider.continueConversation(history, context), history);
+        send({ type: 'AI_REPLY' });
+    }
+
+    // The last reply is taken as the goodbye, so the chat ends once it's been said
+    send({ type: 'SPEECH_END', isEnding: true });
+    return transcript;
+};
+
+export const formatTranscript = (transcript: TranscriptTurn[]) =>
+    transcript.map(turn => {
+        const speaker = turn.speaker === 'buddy' ? 'Buddy' : 'Child';
+        const lines = [`${speaker}: ${turn.text}${turn.blocked ? ' [blocked]' : ''}`];
+        turn.toolCalls.forEach(call => lines.push(`  [${call.name} ${call.arguments}]`));
+        return lines.join('\n');
+    }).join('\n');
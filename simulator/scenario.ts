@@ -0,0 +1,75 @@
+import { isLanguage, type Language } from '../src/lib/i18n';
+import { isLessonGoal, type LessonGoal } from '../src/lib/lessons';
+
+// A scripted conversation to replay against a provider, written as JSON in simulator/scenarios/.
+// The child either says fixed lines (`child`) or is played by a model (`simulatedChild`).
+
+export interface ScenarioExpectations {
+    maxSentences?: number; // Per buddy reply
+    asksQuestion?: boolean; // Every buddy reply has a question in it
+    noBlockedWords?: boolean; // Nothing the output safety check would block
+    backgroundOnColour?: boolean; // A reply to a child who named a colour changes the background
+}
+
+export interface Scenario {
+    name: string;
+    image: string; // Resolved to an absolute path
+    language: Language;
+    persona?: string; // A built-in persona id; the default otherwise
+    lesson?: LessonGoal;
+    child: string[];
+    simulatedChild?: { turns: number; description: string };
+    expect: ScenarioExpectations;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readOptional = <T>(value: unknown, path: string, check: (v: unknown) => v is T, what: string): T | undefined => {
+    if (value === undefined) return undefined;
+    if (!check(value)) throw new Error(`${path} must be ${what}`);
+    return value;
+};
+
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isPositiveInteger = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+
+// Throws with the field that's wrong, like parseDemoScript. `resolveImage` turns the file's image path into a real one.
+export const parseScenario = (data: unknown, fallbackName: string, resolveImage: (image: string) => string): Scenario => {
+    if (!isRecord(data)) throw new Error('The scenario must be a JSON object');
+    if (!isText(data.image)) throw new Error('image must be the path of a picture');
+    const language = data.language ?? 'en';
+    if (!isLanguage(language)) throw new Error(`language '${String(language)}' is not supported`);
+
+    const child = data.child ?? [];
+    if (!Array.isArray(child) || !child.every(isText)) throw new Error('child must be a list of things the child says');
+
+    let simulatedChild: Scenario['simulatedChild'];
+    if (data.simulatedChild !== undefined) {
+        if (!isRecord(data.simulatedChild)) throw new Error('simulatedChild must be an object');
+        const turns = readOptional(data.simulatedChild.turns, 'simulatedChild.turns', isPositiveInteger, 'a whole number above 0') ?? 3;
+        const description = readOptional(data.simulatedChild.description, 'simulatedChild.description', isText, 'some text') ?? 'A curious 6-year-old.';
+        simulatedChild = { turns, description };
+    }
+    if (child.length === 0 && !simulatedChild) throw new Error('Give the child some lines (child) or a simulatedChild');
+
+    const expect = data.expect ?? {};
+    if (!isRecord(expect)) throw new Error('expect must be an object');
+
+    return {
+        name: isText(data.name) ? data.name.trim() : fallbackName,
+        image: resolveImage(data.image),
+        language,
+        persona: readOptional(data.persona, 'persona', isText, 'a persona id'),
+        lesson: readOptional(data.lesson, 'lesson', isLessonGoal, 'counting, colours, shapes or rhyming'),
+        child,
+        simulatedChild,
+        expect: {
+            maxSentences: readOptional(expect.maxSentences, 'expect.maxSentences', isPositiveInteger, 'a whole number above 0'),
+            asksQuestion: readOptional(expect.asksQuestion, 'expect.asksQuestion', isBoolean, 'true or false'),
+            noBlockedWords: readOptional(expect.noBlockedWords, 'expect.noBlockedWords', isBoolean, 'true or false'),
+            backgroundOnColour: readOptional(expect.backgroundOnColour, 'expect.backgroundOnColour', isBoolean, 'true or false'),
+        },
+    };
+};
@@ -1,217 +1,956 @@
-import React, { useState, useEffect } from 'react';
-import { Mic, Volume2, Play, Image as ImageIcon, Sparkles } from 'lucide-react';
-import { initializeOpenAI, analyzeImageAndStart, continueConversation, mockAnalyzeImageAndStart, mockContinueConversation, type ChatMessage } from './lib/openai';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Mic, Volume2, Play, Image as ImageIcon, Sparkles, Camera, Lock, BookOpen } from 'lucide-react';
+import type { ChatContentPart, ChatMessage, ConversationProvider, PromptContext, ProviderReply, ProviderSettings, ReplyStreamHandlers, ToolCallRequest } from './lib/provider';
+import { createDemoProvider } from './lib/demo';
+import { parseDemoScript, type DemoScript } from './lib/demoScript';
+import { runToolCall, type ToolContext } from './lib/tools';
+import { DEFAULT_PROVIDER_SETTINGS, PROXY_URL, clearProviderSettings, createProvider, loadCostSettings, loadCustomPersonas, loadDemoScript, loadImageOptions, loadLanguage, loadLessonGoal, loadParentSettings, loadPersonaId, loadProfileId, loadProfiles, loadProviderSettings, loadSafetySettings, loadSessionConfig, loadSpeechSettings, saveCostSettings, saveCustomPersonas, saveDemoScript, saveLanguage, saveLessonGoal, saveParentSettings, saveSafetySettings, saveSessionConfig, saveSpeechSettings, savePersonaId, saveProfileId, saveProfiles, saveProviderSettings, validateProviderSettings } from './lib/settings';
+import { WRAP_UP_INSTRUCTION, getSessionDurationMs, type SessionConfig, type SessionEndReason } from './lib/session';
+import { checkBuddyOutput, checkChildInput, type SafetySettings } from './lib/safety';
+import { LANGUAGES, getMessages, isLanguage, pickRandom, type Language, type Messages } from './lib/i18n';
+import { BUILT_IN_PERSONAS, getPersona, toPersonaPrompt, type Persona } from './lib/persona';
+import { mergeMemories, toChildPrompt, type ChildProfile } from './lib/profile';
+import { LESSON_EMOJI, MAX_STARS_PER_SESSION, isLessonGoal, type LessonGoal } from './lib/lessons';
+import { sessionToTranscript } from './lib/sessionExport';
+import { NEW_PICTURE_PROMPT, buildRequestHistory, createContextState, markInterrupted, messagesToTranscript, planSummary } from './lib/context';
+import { addUsage, isOverCap, type CostSettings } from './lib/cost';
+import { runTurnLoop } from './lib/turn';
 import { useSpeech } from './hooks/useSpeech';
-import { convertFileToBase64, fetchImageAsBase64 } from './utils/image';
+import { useBargeIn } from './hooks/useBargeIn';
+import { useConversationMachine } from './hooks/useConversationMachine';
+import type { VoiceSettings } from './lib/textToSpeech';
+import { getSpeechService, type SpeechSettings } from './lib/speech';
+import type { ParentSettings } from './lib/parental';
+import { DEFAULT_SCENE, toSceneBackground, type Scene } from './lib/scene';
+import { addPointingNote, fitContain, toBoxRegion, toImagePoint, type Highlight, type NormalizedPoint, type Region } from './lib/pointing';
+import { useSession } from './hooks/useSession';
+import { useSessionLog } from './hooks/useSessionLog';
+import { useDailyAllowance } from './hooks/useDailyAllowance';
+import { useStorybook } from './hooks/useStorybook';
+import type { StoredSession } from './lib/sessionStore';
+import ParentHistory from './components/ParentHistory';
+import PersonaPanel from './components/PersonaPanel';
+import ProfilePanel from './components/ProfilePanel';
+import PicturePicker from './components/PicturePicker';
+import ReadAlong from './components/ReadAlong';
+import ParentGate from './components/ParentGate';
+import SettingsPanel from './components/SettingsPanel';
+import SceneEffects from './components/SceneEffects';
+import Storybook from './components/Storybook';
+import { ImageError, createCloseUp, createThumbnail, fetchImageAsBase64 } from './utils/image';
+import { toProviderError } from './lib/errors';
+import { withRetry } from './lib/retry';
+import { createSentenceSplitter } from './utils/sentences';
 import './App.css';
 
-type AppState = 'IDLE' | 'ANALYZING' | 'SPEAKING' | 'LISTENING' | 'THINKING' | 'ERROR';
+const SLOW_WORD_RATE = 0.6; // A tapped caption word is said again at this fraction of the usual speed
+
+const formatDuration = (ms: number, messages: Messages) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return messages.duration(Math.floor(totalSeconds / 60), totalSeconds % 60);
+};
 
 function App() {
-  const [apiKey, setApiKey] = useState('');
-  const [hasKey, setHasKey] = useState(false);
+  // With the proxy configured there is nothing to set up in the browser: no key ever touches it
+  const [settings, setSettings] = useState<ProviderSettings>(() =>
+    PROXY_URL ? { ...DEFAULT_PROVIDER_SETTINGS, kind: 'proxy' } : loadProviderSettings() ?? DEFAULT_PROVIDER_SETTINGS
+  );
+  const [hasKey, setHasKey] = useState(() => PROXY_URL !== null || loadProviderSettings() !== null);
   const [imageSrc, setImageSrc] = useState('/dino.svg');
-  const [appState, setAppState] = useState<AppState>('IDLE');
+  const { appState, send, getState, getEventLog } = useConversationMachine();
   const [history, setHistory] = useState<ChatMessage[]>([]);
   const [lastAIResponse, setLastAIResponse] = useState('');
-  const [backgroundColor, setBackgroundColor] = useState('#f0f9ff'); // Default light blue
+  // The error screen's text: `message` is for the child, `detail` for a grown-up
+  // startsOver: the proxy lost the conversation, so trying again has to open a new one
+  const [failure, setFailure] = useState<{ message: string; detail: string; startsOver?: boolean } | null>(null);
+  const [scene, setScene] = useState<Scene>(DEFAULT_SCENE);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [sticker, setSticker] = useState<string | null>(null);
+  const [sessionConfig, setSessionConfig] = useState(loadSessionConfig);
+  const [safetySettings, setSafetySettings] = useState(loadSafetySettings);
+  const [costSettings, setCostSettings] = useState(loadCostSettings);
+  const [imageOptions] = useState(loadImageOptions);
+  const [speechSettings, setSpeechSettings] = useState(loadSpeechSettings);
+  const [showPictures, setShowPictures] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [personaId, setPersonaId] = useState(loadPersonaId);
+  const [showPersonas, setShowPersonas] = useState(false);
+  const [profiles, setProfiles] = useState<ChildProfile[]>(loadProfiles);
+  const [profileId, setProfileId] = useState(loadProfileId);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [demoScript, setDemoScript] = useState<DemoScript | null>(loadDemoScript);
+  const [lessonGoal, setLessonGoal] = useState<LessonGoal | null>(loadLessonGoal);
+  const [stars, setStars] = useState(0);
+  const [parentSettings, setParentSettings] = useState(loadParentSettings);
+  // The grown-ups' area: the gate first, then the settings
+  const [parentView, setParentView] = useState<'gate' | 'settings' | null>(null);
+  // Where the child last tapped the picture; goes with their next answer
+  const [pointedAt, setPointedAt] = useState<NormalizedPoint | null>(null);
+  // What the buddy circled while talking; the id restarts the animation for a new one
+  const [highlight, setHighlight] = useState<(Highlight & { id: number }) | null>(null);
+  // Where the picture sits inside the <img> box (object-fit: contain leaves space around it)
+  const [imageFit, setImageFit] = useState<Region>(() => fitContain(1, 1));
+  const [showStory, setShowStory] = useState(false);
 
-  const { isListening, speak, startListening, transcript, stopListening, isSupported } = useSpeech();
+  const messages = getMessages(language);
+  const locale = LANGUAGES[language].locale;
+  const personas = useMemo(() => [...BUILT_IN_PERSONAS, ...customPersonas], [customPersonas]);
+  const persona = getPersona(personas, personaId);
+  const profile = profiles.find(p => p.id === profileId) ?? null;
+  const promptContext: PromptContext = {
+    language,
+    persona: toPersonaPrompt(persona),
+    child: profile ? toChildPrompt(profile) : undefined,
+    lesson: lessonGoal ?? undefined,
+  };
 
-  // Load API key from local storage
-  useEffect(() => {
-    const storedKey = localStorage.getItem('openai_api_key');
-    if (storedKey) {
-      setApiKey(storedKey);
-      setHasKey(true);
-      initializeOpenAI(storedKey);
-    }
-  }, []);
+  const voiceFor = (p: Persona): VoiceSettings => ({ locale, voiceName: p.voiceName, pitch: p.pitch, rate: p.rate });
+  const voice = useMemo(
+    () => ({ locale, voiceName: persona.voiceName, pitch: persona.pitch, rate: persona.rate }),
+    [locale, persona.voiceName, persona.pitch, persona.rate]
+  );
+
+  // Server speech engines reuse the configured provider's server (not in Demo Mode, which should cost nothing)
+  const speechEngines = useMemo(() => ({
+    recognition: speechSettings.recognition,
+    synthesis: speechSettings.synthesis,
+    service: getSpeechService(speechSettings, hasKey && !isDemoMode ? settings : null),
+  }), [speechSettings, hasKey, isDemoMode, settings]);
+
+  const { isListening, speechProgress, speak, beginSpeechQueue, queueSpeech, finishSpeechQueue, cancelSpeech, interruptSpeech, startListening, transcript, isTranscriptFinal, stopListening, isSupported } = useSpeech(voice, speechEngines);
+
+  // Demo mode (forced from a button) always wins over whatever provider is configured
+  const demoProvider = useMemo(() => createDemoProvider(demoScript), [demoScript]);
+  // A saved demo setup shares the demo provider, so a newly loaded script applies right away
+  const configuredProvider = useMemo(
+    () => (!hasKey ? null : settings.kind === 'demo' ? demoProvider : createProvider(settings)),
+    [hasKey, settings, demoProvider]
+  );
+  const provider = isDemoMode ? demoProvider : configuredProvider;
+
+  const { summary, startSession, recordTurn, recordSilence, requestEnd, isEnding, endSession } = useSession(sessionConfig, (reason) => handleTimeUp(reason));
+  const { usedTodayMs, remainingMs, isLocked, getRemainingNow, startPlaytime, stopPlaytime, unlockToday } = useDailyAllowance(parentSettings);
+  const { startLog, logTurn, logIntervention, logStar, logUsage, getSessionUsage, finishLog } = useSessionLog();
+  const { book, status: storyStatus, makeStory, clearStory } = useStorybook();
+  // What gets sent to the model: the picture as text once described, older turns summarized
+  const contextRef = useRef(createContextState());
+  const isSummarizingRef = useRef(false);
+  // Set once recognition has actually started, so the gap before it starts isn't mistaken for silence
+  const hasListenStartedRef = useRef(false);
+  // The reply being spoken. `heard` is set if the child cut it off; `isDone` once it's in the history.
+  const spokenTurnRef = useRef<{ heard: string[] | null; isDone: boolean }>({ heard: null, isDone: true });
+  // The history as of right now, for handlers that run while a reply is still coming in (`history` is for rendering)
+  const historyRef = useRef<ChatMessage[]>([]);
+  // The buddy turn being played, so the child's next turn can wait until it's in the history
+  const turnInFlightRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Each chat gets its own signal. A reset aborts it, which cancels the request in flight and
+  // tells the code waiting on it to drop whatever comes back.
+  const runRef = useRef(new AbortController());
+  // Stars so far this chat; tools run mid-stream, before a state update would show up
+  const starsRef = useRef(0);
+  const highlightCountRef = useRef(0);
+  // What the storybook is made from: the chat's pictures in order, the scene it started on, and the saved log
+  const picturesRef = useRef<string[]>([]);
+  const startSceneRef = useRef<Scene>(DEFAULT_SCENE);
+  const finishedSessionRef = useRef<StoredSession | null>(null);
+  // The time ran out while the buddy was busy: it says goodbye once it's done talking
+  const isGoodbyeDueRef = useRef(false);
+
+  const updateHistory = (change: (current: ChatMessage[]) => ChatMessage[]) => {
+    historyRef.current = change(historyRef.current);
+    setHistory(historyRef.current);
+  };
+
+  const toolContext: ToolContext = {
+    updateScene: (change) => setScene(current => ({ ...current, ...change })),
+    showSticker: setSticker,
+    endConversation: () => {
+      isGoodbyeDueRef.current = false; // The buddy is saying its own
+      requestEnd('buddy');
+    },
+    lookAgain: () => {
+      contextRef.current.lookAgain = true;
+    },
+    awardStar: (skill) => {
+      if (!lessonGoal || starsRef.current >= MAX_STARS_PER_SESSION) return null;
+      starsRef.current++;
+      setStars(starsRef.current);
+      logStar(skill);
+      return starsRef.current;
+    },
+    highlightRegion: (region) => setHighlight({ ...region, id: ++highlightCountRef.current }),
+  };
+
+  const handleLanguageChange = (value: string) => {
+    if (!isLanguage(value)) return;
+    setLanguage(value);
+    saveLanguage(value);
+  };
+
+  const handleSelectPersona = (id: string) => {
+    setPersonaId(id);
+    savePersonaId(id);
+  };
+
+  const handleSavePersona = (edited: Persona) => {
+    const exists = customPersonas.some(p => p.id === edited.id);
+    const next = exists ? customPersonas.map(p => (p.id === edited.id ? edited : p)) : [...customPersonas, edited];
+    setCustomPersonas(next);
+    saveCustomPersonas(next);
+    handleSelectPersona(edited.id);
+  };
+
+  const handleDeletePersona = (id: string) => {
+    const next = customPersonas.filter(p => p.id !== id);
+    setCustomPersonas(next);
+    saveCustomPersonas(next);
+  };
+
+  const handleClosePersonas = () => {
+    cancelSpeech();
+    setShowPersonas(false);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setProfileId(id);
+    saveProfileId(id);
+  };
+
+  const handleSelectLesson = (value: string) => {
+    const goal = isLessonGoal(value) ? value : null;
+    setLessonGoal(goal);
+    saveLessonGoal(goal);
+  };
+
+  const updateProfiles = (next: ChildProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const handleSaveProfile = (edited: ChildProfile) => {
+    const exists = profiles.some(p => p.id === edited.id);
+    updateProfiles(exists ? profiles.map(p => (p.id === edited.id ? edited : p)) : [...profiles, edited]);
+    if (!exists) handleSelectProfile(edited.id);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    updateProfiles(profiles.filter(p => p.id !== id));
+    if (id === profileId) handleSelectProfile('');
+  };
+
+  // After a chat, ask the model what's worth remembering about the child for next time.
+  // Runs in the background; re-reads storage so it doesn't undo edits made in the meantime.
+  const rememberSession = (session: StoredSession) => {
+    if (!profile || session.isDemoMode || !provider?.extractMemories) return;
+    if (!session.turns.some(turn => turn.speaker === 'child' && !turn.blocked)) return;
+
+    const childId = profile.id;
+    provider.extractMemories(sessionToTranscript(session), promptContext)
+      .then(facts => {
+        if (facts.length === 0) return;
+        updateProfiles(loadProfiles().map(p => (p.id === childId ? mergeMemories(p, facts) : p)));
+      })
+      .catch(e => console.warn("Couldn't extract memories", e));
+  };
+
+  const handleCostSettingsChange = (next: CostSettings) => {
+    setCostSettings(next);
+    saveCostSettings(next);
+  };
+
+  const handleSessionConfigChange = (next: SessionConfig) => {
+    setSessionConfig(next);
+    saveSessionConfig(next);
+  };
+
+  const handleSafetyChange = (next: SafetySettings) => {
+    setSafetySettings(next);
+    saveSafetySettings(next);
+  };
+
+  const handleSpeechChange = (next: SpeechSettings) => {
+    setSpeechSettings(next);
+    saveSpeechSettings(next);
+  };
+
+  const handleParentSettingsChange = (next: ParentSettings) => {
+    setParentSettings(next);
+    saveParentSettings(next);
+  };
+
+  // Trims a history for sending. A "look again" only lasts for one request.
+  const prepareRequest = (fullHistory: ChatMessage[]) => {
+    const request = buildRequestHistory(fullHistory, contextRef.current);
+    contextRef.current.lookAgain = false;
+    return request;
+  };
+
+  // Background call once the buddy has seen a picture; until it's back the picture is still sent as is.
+  // historyIndex is where the picture's message sits in the history.
+  const describePicture = (activeProvider: ConversationProvider, base64: string, historyIndex: number) => {
+    if (!activeProvider.describeImage || !base64.startsWith('data:')) return;
+    const state = contextRef.current;
+    activeProvider.describeImage(base64)
+      .then(({ text, usage }) => {
+        if (text) state.descriptions[historyIndex] = text;
+        if (usage) logUsage(usage);
+      })
+      .catch(e => console.warn("Couldn't describe the picture; it will be sent with every turn", e));
+  };
+
+  // Once requests get too big, fold the older turns into the running summary while the child is talking
+  const summarizeIfNeeded = (activeProvider: ConversationProvider, fullHistory: ChatMessage[]) => {
+    const state = contextRef.current;
+    const plan = planSummary(fullHistory, state);
+    if (!plan || !activeProvider.summarize || isSummarizingRef.current) return;
+
+    isSummarizingRef.current = true;
+    activeProvider.summarize(messagesToTranscript(plan.messages), state.summary)
+      .then(({ text, usage }) => {
+        if (text) {
+          state.summary = text;
+          state.summarizedCount = plan.summarizedCount;
+        }
+        if (usage) logUsage(usage);
+      })
+      .catch(e => console.warn("Couldn't summarize the conversation", e))
+      .finally(() => {
+        isSummarizingRef.current = false;
+      });
+  };
+
+  const updateSettings = (patch: Partial<ProviderSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  };
 
   const handleSaveKey = () => {
-    if (apiKey.trim().startsWith('sk-')) {
-      localStorage.setItem('openai_api_key', apiKey);
-      initializeOpenAI(apiKey);
-      setHasKey(true);
-    } else {
-      alert('Please enter a valid OpenAI API Key starting with sk-');
+    const problem = validateProviderSettings(settings);
+    if (problem) {
+      alert(messages[problem]);
+      return;
     }
+    saveProviderSettings(settings);
+    setHasKey(true);
+  };
+
+  // Back to the picture screen from anywhere, even mid-request
+  const resetConversation = () => {
+    stopPlaytime();
+    runRef.current.abort();
+    cancelSpeech();
+    stopListening();
+    hasListenStartedRef.current = false;
+    setPointedAt(null);
+    setHighlight(null);
+    clearStory();
+    setShowStory(false);
+    send({ type: 'RESET' });
   };
 
   const handleResetKey = () => {
-    localStorage.removeItem('openai_api_key');
-    setApiKey('');
+    clearProviderSettings();
+    setSettings(DEFAULT_PROVIDER_SETTINGS);
     setHasKey(false);
-    setAppState('IDLE');
+    setIsDemoMode(false);
+    resetConversation();
+  };
+
+  const updateDemoScript = (script: DemoScript | null) => {
+    setDemoScript(script);
+    saveDemoScript(script);
   };
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const base64 = await convertFileToBase64(e.target.files[0]);
-      setImageSrc(base64);
-      setAppState('IDLE');
-      setHistory([]);
-      setLastAIResponse('');
+  const handleDemoScriptUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateDemoScript(parseDemoScript(JSON.parse(await file.text())));
+    } catch (error) {
+      alert(messages.demoScriptInvalid((error as Error).message));
     }
   };
 
-  const startConversation = async (forceDemo = false) => {
-    if (!hasKey && !forceDemo) return;
+  // Before a chat a new picture starts over; mid-chat the buddy gets to see it as part of the conversation
+  const handlePickPicture = (src: string) => {
+    setShowPictures(false);
+    if (getState() === 'LISTENING') {
+      showNewPicture(src);
+      return;
+    }
+    setImageSrc(src);
+    resetConversation();
+    updateHistory(() => []);
+    setLastAIResponse('');
+    setSticker(null);
+  };
+
+  // Mid-chat the microphone is paused while the child picks; marking it as not started keeps
+  // the stop from being taken as silence
+  const handleOpenPictures = () => {
+    if (appState === 'LISTENING') {
+      hasListenStartedRef.current = false;
+      stopListening();
+    }
+    setShowPictures(true);
+  };
+
+  const handleClosePictures = () => {
+    setShowPictures(false);
+    if (appState === 'LISTENING') startListening();
+  };
+
+  // Runs one buddy turn: speaks the reply sentence by sentence as it streams in, runs every tool call
+  // it makes and records them in history. If the model only called tools without saying anything,
+  // it's asked again (with the tool results) so the child always hears a reply.
+  const playBuddyTurn = async (
+    activeProvider: ConversationProvider,
+    signal: AbortSignal,
+    firstRequest: (handlers: ReplyStreamHandlers) => Promise<{ reply: ProviderReply; history: ChatMessage[] }>
+  ) => {
+    let splitter = createSentenceSplitter();
+    beginSpeechQueue();
+    const turn: { heard: string[] | null; isDone: boolean } = { heard: null, isDone: false };
+    spokenTurnRef.current = turn;
+
+    // Every sentence passes the safety check before it's spoken or shown. After a blocked one the
+    // rest of the reply is dropped and the buddy steers somewhere else instead.
+    const spokenSentences: string[] = [];
+    let isOutputBlocked = false;
+    let isOutputRedacted = false;
+    const saySafely = (sentence: string) => {
+      if (isOutputBlocked || turn.heard || signal.aborted || !sentence.trim()) return;
+      const verdict = checkBuddyOutput(sentence, safetySettings);
+      verdict.interventions.forEach(logIntervention);
+
+      const line = verdict.blocked ? pickRandom(messages.redirectReplies) : verdict.text;
+      isOutputBlocked = verdict.blocked;
+      if (line !== sentence) isOutputRedacted = true;
+      spokenSentences.push(line);
+      queueSpeech(line);
+      setLastAIResponse(spokenSentences.join(' '));
+      send({ type: 'AI_REPLY' });
+    };
+
+    // Tools run as soon as they arrive mid-stream; remember the results so they aren't run twice
+    const toolResults = new Map<string, ChatMessage>();
+    const runTool = (call: ToolCallRequest) => {
+      if (!toolResults.has(call.id)) toolResults.set(call.id, runToolCall(call, toolContext));
+      return toolResults.get(call.id)!;
+    };
+
+    const handlers: ReplyStreamHandlers = {
+      onTextDelta: (delta) => splitter.push(delta).forEach(saySafely),
+      onToolCall: runTool,
+      signal,
+    };
+
+    // Transient failures are asked again while the buddy fills the pause. Not once the child has
+    // heard part of the reply though: starting over would repeat it.
+    let hasSaidFiller = false;
+    const request = <T,>(makeRequest: (attemptHandlers: ReplyStreamHandlers) => Promise<T>) =>
+      withRetry(attemptSignal => makeRequest({ ...handlers, signal: attemptSignal }), {
+        signal,
+        canRetry: () => spokenSentences.length === 0,
+        onRetry: (error, retry) => {
+          console.warn(`Asking again (retry ${retry}) after a ${error.kind} error`, error);
+          splitter = createSentenceSplitter(); // Drop the half sentence the failed attempt left behind
+          if (hasSaidFiller) return;
+          hasSaidFiller = true;
+          queueSpeech(pickRandom(messages.thinkingFillers));
+        },
+      });
+
+    const first = await request(firstRequest);
+    if (signal.aborted) return;
+    const turnStart = first.history.length;
+    const looped = await runTurnLoop(first.reply, first.history, {
+      runTool,
+      askAgain: (turnHistory) => {
+        const followUp = prepareRequest(turnHistory);
+        return request(attemptHandlers => activeProvider.continueConversation(followUp, promptContext, attemptHandlers));
+      },
+      // Non-streaming providers never call onTextDelta, so their text gets spoken here
+      onReply: (reply) => {
+        if (!activeProvider.capabilities.streaming) saySafely(reply.text);
+      },
+      signal,
+    });
+    if (!looped) return;
+    const { toolCalls: turnToolCalls, usage: turnUsage } = looped;
+    let turnHistory = looped.history;
+
+    const rest = splitter.flush();
+    if (rest) saySafely(rest);
+    if (spokenSentences.length === 0) saySafely(messages.fallbackReply);
+
+    // Over the spending cap: say goodbye right away instead of paying for another reply
+    if (!turn.heard && !isEnding() && isOverCap(addUsage(getSessionUsage(), turnUsage), costSettings)) {
+      requestEnd('budget');
+      spokenSentences.push(messages.wrapUpGoodbye);
+      queueSpeech(messages.wrapUpGoodbye);
+    }
+    const spokenText = spokenSentences.join(' ');
+
+    // The model should remember what the child actually heard, not what got filtered or redacted
+    if (isOutputBlocked || isOutputRedacted) {
+      turnHistory = turnHistory.map((message, i) =>
+        i >= turnStart && message.role === 'assistant' && message.content ? { ...message, content: spokenText } : message
+      );
+    }
+    // Cut off while the reply was still coming in: the App is already listening again
+    if (turn.heard) turnHistory = markInterrupted(turnHistory, turn.heard);
+    turn.isDone = true;
 
-    // Activating demo mode if forced or if we are already in demo mode
-    const useDemo = forceDemo || isDemoMode;
+    // Goes in right after the message it answers: the child may have said something since, if they cut it off
+    const answered = first.history[turnStart - 1];
+    const turnMessages = turnHistory.slice(turnStart);
+    updateHistory(current => {
+      const at = current.lastIndexOf(answered);
+      return at === -1 ? turnHistory : [...current.slice(0, at + 1), ...turnMessages, ...current.slice(at + 1)];
+    });
+    setLastAIResponse(turn.heard ? turn.heard.join(' ') : spokenText);
+    logTurn({
+      speaker: 'buddy',
+      text: spokenText,
+      toolCalls: turnToolCalls.map(call => ({ name: call.function.name, arguments: call.function.arguments })),
+      usage: turnUsage,
+      blocked: isOutputBlocked || undefined,
+    });
+    summarizeIfNeeded(activeProvider, historyRef.current);
+    if (turn.heard) return;
+    send({ type: 'AI_REPLY' });
+    finishSpeechQueue(() => {
+      handleAIBlueSpeechEnd();
+    });
+  };
+
+  const runBuddyTurn: typeof playBuddyTurn = (activeProvider, signal, firstRequest) => {
+    const playing = playBuddyTurn(activeProvider, signal, firstRequest);
+    turnInFlightRef.current = playing.catch(() => {});
+    return playing;
+  };
+
+  // Shows the error screen, unless the chat was reset meanwhile and nobody is waiting for it anymore
+  const failTurn = (signal: AbortSignal, what: string, error: unknown) => {
+    if (signal.aborted) return;
+    console.error(what, error, `\nRecent events:\n${getEventLog()}`);
+    cancelSpeech();
+    stopListening();
+    if (error instanceof ImageError) {
+      setFailure({ message: messages.imageErrors[error.reason], detail: error.message });
+    } else {
+      const problem = toProviderError(error);
+      setFailure({
+        message: messages.providerErrors[problem.kind],
+        detail: `${problem.kind}: ${problem.message}`,
+        startsOver: problem.kind === 'sessionExpired',
+      });
+    }
+    send({ type: 'FAILURE', message: error instanceof Error ? error.message : String(error) });
+  };
+
+  const startConversation = async (forceDemo = false) => {
+    const activeProvider = forceDemo ? demoProvider : provider;
+    // Out of playtime for today: the start button is locked, but the error screen can get here too
+    const allowanceMs = getRemainingNow();
+    if (!activeProvider || allowanceMs === 0 || !send({ type: 'IMAGE_READY' })) return;
     if (forceDemo) setIsDemoMode(true);
 
-    setAppState('ANALYZING');
+    runRef.current.abort();
+    runRef.current = new AbortController();
+    const signal = runRef.current.signal;
+    updateHistory(() => []);
     try {
-      // If image is relative path (like /dino.svg), fetch and convert first
+      // If image is relative path (like /dino.svg), fetch and convert first - only worth it if the provider can see
       let base64 = imageSrc;
-      if (!imageSrc.startsWith('data:') && !useDemo) {
-        base64 = await fetchImageAsBase64(imageSrc);
+      if (!imageSrc.startsWith('data:') && activeProvider.capabilities.vision) {
+        base64 = await fetchImageAsBase64(imageSrc, imageOptions);
+        if (signal.aborted) return;
       }
 
-      let result;
-      if (useDemo) {
-        result = await mockAnalyzeImageAndStart();
-      } else {
-        result = await analyzeImageAndStart(base64);
-      }
+      setSticker(null);
+      startSession(allowanceMs);
+      startPlaytime();
+      contextRef.current = createContextState();
+      starsRef.current = 0;
+      setStars(0);
+      picturesRef.current = [imageSrc];
+      startSceneRef.current = scene;
+      finishedSessionRef.current = null;
+      isGoodbyeDueRef.current = false;
+      startLog(imageSrc, activeProvider.label, activeProvider.id === 'demo', profile?.id ?? null, lessonGoal);
+      await runBuddyTurn(activeProvider, signal, async (handlers) => {
+        const reply = await activeProvider.startFromImage(base64, promptContext, handlers);
+        describePicture(activeProvider, base64, 0);
+        return { reply, history: [reply.initialUserMessage] };
+      });
+    } catch (error) {
+      failTurn(signal, "Analysis failed", error);
+    }
+  };
 
-      const { text, toolCall, initialUserMessage } = result;
-      setLastAIResponse(text);
-      setHistory([initialUserMessage, { role: 'assistant', content: text }]);
+  const handleAIBlueSpeechEnd = () => {
+    setHighlight(null);
+    if (isEnding() && isGoodbyeDueRef.current) {
+      isGoodbyeDueRef.current = false;
+      sayLine(messages.wrapUpGoodbye);
+      return;
+    }
+    // The goodbye has been said
+    if (isEnding()) {
+      if (!send({ type: 'SPEECH_END', isEnding: true })) return;
+      stopListening();
+      stopPlaytime();
+      const finished = finishLog(endSession()?.endReason);
+      finishedSessionRef.current = finished;
+      if (finished) rememberSession(finished);
+      return;
+    }
+    if (!send({ type: 'SPEECH_END', isEnding: false })) return;
+    hasListenStartedRef.current = false;
+    startListening();
+  };
 
-      if (toolCall) setBackgroundColor(toolCall.color);
+  // Says a fixed line (not from the model) and then carries on like after any other reply.
+  // `blocked` marks it as the answer to words the safety check stopped.
+  const sayLine = (line: string, blocked = false) => {
+    setLastAIResponse(line);
+    spokenTurnRef.current = { heard: null, isDone: true };
+    updateHistory(prev => [...prev, { role: 'assistant', content: line }]);
+    logTurn({ speaker: 'buddy', text: line, blocked: blocked || undefined });
+    send({ type: 'AI_REPLY' });
+    speak(line, () => {
+      handleAIBlueSpeechEnd();
+    });
+  };
 
-      setAppState('SPEAKING');
-      speak(text, () => {
-        handleAIBlueSpeechEnd();
-      });
-    } catch (error: any) {
-      console.error("Analysis failed", error);
-      setLastAIResponse(error.message || "Unknown error occurred");
-      setAppState('ERROR');
+  // Nobody answered: nudge the child a couple of times, then say goodbye
+  const handleSilence = () => {
+    if (!send({ type: 'TIMEOUT' })) return;
+    stopListening();
+    const nudge = recordSilence();
+    sayLine(nudge === null ? messages.silenceGoodbye : messages.silencePrompts[(nudge - 1) % messages.silencePrompts.length]);
+  };
+
+  // The chat's time is up, whether or not anyone has said anything lately. While waiting for the child
+  // the buddy says goodbye straight away; otherwise right after what it's saying now.
+  const handleTimeUp = (reason: SessionEndReason) => {
+    const state = getState();
+    if (state === 'IDLE' || state === 'ENDED') return;
+    requestEnd(reason);
+    if (state === 'ERROR') return; // Picking the chat back up asks for the goodbye
+    if (state !== 'LISTENING') {
+      isGoodbyeDueRef.current = true;
+      return;
     }
+    if (!send({ type: 'TIMEOUT' })) return;
+    hasListenStartedRef.current = false;
+    stopListening();
+    sayLine(messages.wrapUpGoodbye);
   };
 
-  const handleAIBlueSpeechEnd = () => {
-    setAppState('LISTENING');
+  // The child started talking over the buddy: stop mid-sentence and listen to them instead.
+  // The goodbye is never cut short.
+  const handleBargeIn = () => {
+    if (isEnding() || !send({ type: 'BARGE_IN' })) return;
+    const turn = spokenTurnRef.current;
+    const heard = interruptSpeech();
+    turn.heard = heard;
+    if (turn.isDone) updateHistory(prev => markInterrupted(prev, heard));
+    setLastAIResponse(heard.join(' '));
+    hasListenStartedRef.current = false;
     startListening();
   };
 
+  useBargeIn(appState === 'SPEAKING' && speechSettings.bargeIn, handleBargeIn);
+
+  // A tapped caption word is said again, slowly. Only between turns, and with the microphone paused
+  // so it doesn't take the word for the child's answer.
+  const canTapWords = appState !== 'ANALYZING' && appState !== 'THINKING' && appState !== 'SPEAKING';
+  const handleWordTap = (word: string) => {
+    const wasListening = getState() === 'LISTENING';
+    if (wasListening) {
+      hasListenStartedRef.current = false;
+      stopListening();
+    }
+    speak(word, () => {
+      if (wasListening && getState() === 'LISTENING') startListening();
+    }, { ...voice, rate: voice.rate * SLOW_WORD_RATE });
+  };
+
+  // Mid-chat the child can tap the picture ("what's that?"); the spot goes with their next answer
+  const canPoint = appState === 'LISTENING' || appState === 'SPEAKING' || appState === 'THINKING';
+  const handleImageTap = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!canPoint) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    const point = toImagePoint({ x: (e.clientX - box.left) / box.width, y: (e.clientY - box.top) / box.height }, imageFit);
+    if (point) setPointedAt(point);
+  };
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const img = e.currentTarget;
+    setImageFit(fitContain(img.naturalWidth / img.naturalHeight, img.clientWidth / img.clientHeight));
+  };
+
+  // Percentages of the <img> box, for things drawn over the picture
+  const toOverlayStyle = (region: Region): React.CSSProperties => {
+    const box = toBoxRegion(region, imageFit);
+    return { left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` };
+  };
+
+  // Spoken or typed, an answer only counts while the buddy is waiting for one, and only once
+  const submitUtterance = (text: string) => {
+    if (!text.trim() || !send({ type: 'USER_UTTERANCE', text })) return;
+    hasListenStartedRef.current = false;
+    // Engines restart themselves after a pause; don't let one record the buddy's reply
+    stopListening();
+    handleUserResponse(text);
+  };
+
+  // The latest handlers for when the child stops talking, without re-running the effect below every render
+  const speechEndRef = useRef({ onSilence: handleSilence, onUtterance: submitUtterance });
+  useEffect(() => {
+    speechEndRef.current = { onSilence: handleSilence, onUtterance: submitUtterance };
+  });
+
   // Effect to handle user speech end
   useEffect(() => {
-    if (!isListening && appState === 'LISTENING') {
-      // User stopped speaking. Check transcript.
-      if (transcript.trim().length > 0) {
-        handleUserResponse(transcript);
-      } else {
-        // Silence or no speech detected? Maybe prompt again or just stop?
-        // For a robust demo, let's just go back to IDLE or wait for manual trigger.
-        // But requirement is "sustain conversation".
-        // Let's retry listening once or show "I didn't hear you".
-        // For simplicity: stick to state. Maybe wait for user to click "Speak" if silent?
-        // Let's auto-transition to thinking if we have something, else stay listing?
-        // Actually, `useSpeech` sets isListening to false on end.
-        // If transcript is empty, maybe the user cancelled.
-      }
+    if (appState !== 'LISTENING') return;
+    if (isListening) {
+      hasListenStartedRef.current = true;
+      return;
     }
-  }, [isListening, appState, transcript]);
+    if (!hasListenStartedRef.current) return;
+
+    // User stopped speaking. Check transcript.
+    hasListenStartedRef.current = false;
+    if (transcript.trim().length === 0) {
+      // The recognizer timed out without hearing anything
+      speechEndRef.current.onSilence();
+    } else if (isTranscriptFinal) {
+      speechEndRef.current.onUtterance(transcript);
+    } else {
+      // Cut off mid-guess: the recognizer starts over by itself rather than us answering half a sentence
+      console.warn("Recognition ended before the transcript was final; listening again");
+    }
+  }, [isListening, appState, transcript, isTranscriptFinal]);
 
   const handleUserResponse = async (userText: string) => {
-    setAppState('THINKING');
-    const newHistory = [...history, { role: 'user', content: userText } as ChatMessage];
-    setHistory(newHistory);
+    const signal = runRef.current.signal;
+    const point = pointedAt;
+    setPointedAt(null);
+
+    // Blocked words never reach the provider; personal details are redacted before they do
+    const verdict = await checkChildInput(userText, safetySettings, provider);
+    // The spot the child pointed at, circled, for models that can see it and for the parents' log
+    const closeUp = point && !verdict.blocked ? await createCloseUp(imageSrc, point).catch(() => null) : null;
+    if (signal.aborted) return;
+    verdict.interventions.forEach(logIntervention);
+    const picture = closeUp ? await createThumbnail(closeUp).catch(() => undefined) : undefined;
+    // Parents see what was blocked, but redacted details are never stored
+    logTurn({ speaker: 'child', text: verdict.blocked ? userText : verdict.text, picture, blocked: verdict.blocked || undefined });
+
+    // Near the end of the session the buddy is asked to say goodbye (only for this request)
+    const shouldWrapUp = recordTurn();
+
+    if (verdict.blocked) {
+      sayLine(shouldWrapUp ? messages.wrapUpGoodbye : pickRandom(messages.redirectReplies), true);
+      return;
+    }
+
+    const canSeeCloseUp = closeUp !== null && provider?.capabilities.vision === true;
+    const text = point ? addPointingNote(verdict.text, point, canSeeCloseUp) : verdict.text;
+    const content: string | ChatContentPart[] = canSeeCloseUp
+      ? [{ type: 'text', text }, { type: 'image_url', image_url: { url: closeUp } }]
+      : text;
+    // A reply the child talked over may still be coming in; it goes in the history before their answer
+    await turnInFlightRef.current;
+    if (signal.aborted) return;
+    const newHistory: ChatMessage[] = [...historyRef.current, { role: 'user', content }];
+    updateHistory(() => newHistory);
+    const requestHistory: ChatMessage[] = shouldWrapUp
+      ? [...newHistory, { role: 'system', content: WRAP_UP_INSTRUCTION }]
+      : newHistory;
 
     try {
-      let result;
-      if (isDemoMode) {
-        result = await mockContinueConversation(newHistory);
-      } else {
-        result = await continueConversation(newHistory);
-      }
+      if (!provider) throw new Error("No conversation provider configured");
+      await runBuddyTurn(provider, signal, async (handlers) => ({
+        reply: await provider.continueConversation(prepareRequest(requestHistory), promptContext, handlers),
+        history: newHistory
+      }));
+    } catch (error) {
+      failTurn(signal, "Conversation failed", error);
+    }
+  };
+
+  // "Look at this one now!": the new picture joins the ongoing history instead of starting over
+  const showNewPicture = async (src: string) => {
+    if (!provider || !send({ type: 'IMAGE_READY' })) return;
+    const signal = runRef.current.signal;
+    setImageSrc(src);
+    setSticker(null);
+    setPointedAt(null);
+    setHighlight(null);
 
-      const { text, toolCall } = result;
-      setLastAIResponse(text);
-      setHistory([...newHistory, { role: 'assistant', content: text }]);
+    try {
+      const canSee = provider.capabilities.vision;
+      const base64 = src.startsWith('data:') || !canSee ? src : await fetchImageAsBase64(src, imageOptions);
+      const picture = await createThumbnail(src).catch(() => undefined);
+      if (signal.aborted) return;
+      logTurn({ speaker: 'child', text: messages.newPictureTurn, picture });
+
+      const shouldWrapUp = recordTurn();
+      const content: ChatContentPart[] = [{ type: 'text', text: NEW_PICTURE_PROMPT }];
+      if (canSee) content.push({ type: 'image_url', image_url: { url: base64 } });
+      await turnInFlightRef.current;
+      if (signal.aborted) return;
+      const pictureIndex = historyRef.current.length;
+      const newHistory: ChatMessage[] = [...historyRef.current, { role: 'user', content }];
+      contextRef.current.currentPicture = pictureIndex;
+      picturesRef.current = [...picturesRef.current, src];
+      updateHistory(() => newHistory);
+      const requestHistory: ChatMessage[] = shouldWrapUp
+        ? [...newHistory, { role: 'system', content: WRAP_UP_INSTRUCTION }]
+        : newHistory;
+
+      await runBuddyTurn(provider, signal, async (handlers) => {
+        const reply = await provider.continueConversation(prepareRequest(requestHistory), promptContext, handlers);
+        if (canSee) describePicture(provider, base64, pictureIndex);
+        return { reply, history: newHistory };
+      });
+    } catch (error) {
+      failTurn(signal, "Switching pictures failed", error);
+    }
+  };
+
+  // Picks the chat back up after a failure by asking again for the reply that didn't come.
+  // With useDemo the practice buddy answers instead, from the same history, and stays for the rest of the chat.
+  const resumeConversation = async (useDemo: boolean) => {
+    const activeProvider = useDemo ? demoProvider : provider;
+    if (!activeProvider || !send({ type: 'RESUME' })) return;
+    if (useDemo) setIsDemoMode(true);
+
+    const signal = runRef.current.signal;
+    const current = historyRef.current;
+    const requestHistory: ChatMessage[] = isEnding()
+      ? [...current, { role: 'system', content: WRAP_UP_INSTRUCTION }]
+      : current;
+    try {
+      await runBuddyTurn(activeProvider, signal, async (handlers) => ({
+        reply: await activeProvider.continueConversation(prepareRequest(requestHistory), promptContext, handlers),
+        history: current
+      }));
+    } catch (error) {
+      failTurn(signal, "Resuming the conversation failed", error);
+    }
+  };
 
-      if (toolCall) setBackgroundColor(toolCall.color);
+  // Reads a saved chat back out loud, child's lines included
+  const handleReplay = (session: StoredSession) => {
+    beginSpeechQueue();
+    session.turns.forEach(turn => queueSpeech(turn.text));
+    finishSpeechQueue();
+  };
 
-      setAppState('SPEAKING');
-      speak(text, () => {
-        handleAIBlueSpeechEnd();
+  // "Make our story": the chat that just ended as a picture book. Providers that can't write one get Demo Mode's template.
+  const handleMakeStory = async () => {
+    if (!book) {
+      const made = await makeStory({
+        provider: provider?.writeStory ? provider : demoProvider,
+        context: promptContext,
+        history: historyRef.current,
+        startScene: startSceneRef.current,
+        pictures: picturesRef.current,
+        safety: safetySettings,
+        session: finishedSessionRef.current,
       });
-    } catch (error: any) {
-      console.error("Conversation failed", error);
-      setLastAIResponse(error.message || "Unknown error occurred");
-      setAppState('ERROR');
+      if (!made) return;
     }
+    setShowStory(true);
+  };
+
+  const handleCloseStory = () => {
+    cancelSpeech();
+    setShowStory(false);
+  };
+
+  const handleCloseHistory = () => {
+    cancelSpeech();
+    setShowHistory(false);
   };
 
-  // Manual Intervention
+  // Manual Intervention: only ever stops or restarts the recognizer while we're waiting for the child
   const handleMicClick = () => {
-    if (appState === 'IDLE' || appState === 'SPEAKING') return;
+    if (getState() !== 'LISTENING') return;
     if (isListening) {
       stopListening();
     } else {
-      setAppState('LISTENING');
       startListening();
     }
   };
 
+  const sceneBackground = toSceneBackground(scene);
+
   return (
-    <div className="app-container" style={{ backgroundColor: backgroundColor, transition: 'background-color 1s ease' }}>
+    <div className="app-container" style={{ '--scene-color': sceneBackground.color, '--scene-gradient': sceneBackground.gradient } as React.CSSProperties}>
+      <SceneEffects weather={scene.weather} mood={scene.mood} />
       <header className="header">
-        <h1>✨ Magic Buddy ✨</h1>
-        {!hasKey && (
-          <div className="api-key-input">
-            <input
-              type="password"
-              placeholder="Enter OpenAI API Key (sk-...)"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-            />
-            <button onClick={handleSaveKey}>Save Key</button>
-          </div>
-        )}
-        {hasKey && (
-          <button onClick={handleResetKey} className="upload-btn" style={{ fontSize: '0.8rem', padding: '5px 10px' }}>
-            Change API Key
+        <h1>{messages.appTitle}</h1>
+        {(appState === 'IDLE' || appState === 'ENDED' || appState === 'ERROR') && (
+          <button onClick={() => setParentView('gate')} className="upload-btn" style={{ fontSize: '0.8rem', padding: '5px 10px' }}>
+            <Lock size={16} /> {messages.grownUps}
           </button>
         )}
         {!isSupported && (
           <div style={{ color: 'red', marginTop: '10px', textAlign: 'center' }}>
-            Your browser doesn't support Speech Recognition. Please use Chrome, Edge, or Safari.
+            {messages.speechUnsupported}
           </div>
         )}
       </header>
 
       <main className="main-content">
         <div className="image-wrapper">
-          <img src={imageSrc} alt="Conversation Topic" className="main-image" />
+          <img
+            src={imageSrc}
+            alt={messages.imageAlt}
+            className={`main-image${canPoint ? ' can-point' : ''}`}
+            title={canPoint ? messages.tapToPoint : undefined}
+            onClick={handleImageTap}
+            onLoad={handleImageLoad}
+          />
+          <div className="image-marks">
+            {pointedAt && <span className="point-marker" style={toOverlayStyle({ ...pointedAt, width: 0, height: 0 })} />}
+            {highlight && <span key={highlight.id} className={`highlight-region highlight-${highlight.shape}`} style={toOverlayStyle(highlight)} />}
+          </div>
+          {sticker && <span key={sticker} className="sticker">{sticker}</span>}
+          {lessonGoal && appState !== 'IDLE' && (
+            <span key={stars} className={`star-counter${stars > 0 ? ' pop' : ''}`} aria-label={messages.starCount(stars)}>
+              {LESSON_EMOJI[lessonGoal]} ⭐ {stars}
+            </span>
+          )}
 
           {appState === 'IDLE' && (
             <div className="overlay">
-              <button onClick={() => startConversation(false)} className="start-btn" disabled={!hasKey}>
-                <Play size={32} /> Start Adventure!
+              <button onClick={() => startConversation(false)} className="start-btn" disabled={!hasKey || isLocked}>
+                <Play size={32} /> {messages.startAdventure}
               </button>
-              {!hasKey && (
-                <button onClick={() => startConversation(true)} className="upload-btn" style={{ marginTop: '10px', background: '#e0f7fa', color: '#006064', border: 'none' }}>
-                  🚀 Try Demo Mode
+              {!hasKey && <p className="idle-note">{messages.askGrownUp}</p>}
+              {hasKey && isLocked && <p className="idle-note">{messages.outOfPlaytime}</p>}
+              {parentSettings.childCanPickPictures && (
+                <button onClick={handleOpenPictures} className="upload-btn">
+                  <ImageIcon size={20} /> {messages.changeImage}
                 </button>
               )}
-              <label className="upload-btn">
-                <ImageIcon size={20} /> Change Image
-                <input type="file" accept="image/*" onChange={handleImageUpload} hidden />
-              </label>
             </div>
           )}
 
           {appState === 'ANALYZING' && (
             <div className="overlay status-overlay">
               <Sparkles className="animate-spin" size={48} />
-              <p>Looking closely...</p>
+              <p>{messages.lookingClosely}</p>
             </div>
           )}
 
@@ -223,25 +962,63 @@ function App() {
             </div>
           )}
 
+          {appState === 'ENDED' && summary && (
+            <div className="overlay status-overlay">
+              <div className="summary-content">
+                <span className="summary-icon">🎉</span>
+                <p className="summary-title">{messages.endReasons[summary.endReason ?? 'time']}</p>
+                <ul className="summary-stats">
+                  <li>⏱️ {messages.talkedFor(formatDuration(getSessionDurationMs(summary), messages))}</li>
+                  <li>💬 {messages.toldMeThings(summary.turns)}</li>
+                  {lessonGoal && <li>⭐ {messages.starsEarned(stars)}</li>}
+                </ul>
+                {history.length > 0 && (
+                  <button onClick={handleMakeStory} className="upload-btn story-btn" disabled={storyStatus === 'writing'}>
+                    <BookOpen size={20} /> {storyStatus === 'writing' ? messages.makingStory : book ? messages.readStory : messages.makeStory}
+                  </button>
+                )}
+                {storyStatus === 'failed' && <p className="idle-note">{messages.storyFailed}</p>}
+                <button onClick={resetConversation} className="retry-btn">
+                  {messages.playAgain}
+                </button>
+              </div>
+            </div>
+          )}
+
           {appState === 'ERROR' && (
             <div className="overlay status-overlay error-mode">
               <div className="error-content">
                 <span className="error-icon">🤕</span>
-                <p className="error-title">Ouch! A Booboo Occurred.</p>
-                <p className="error-detail">{lastAIResponse || "Something went wrong with the magic connection."}</p>
-                <button onClick={() => setAppState('IDLE')} className="retry-btn">
-                  Try Again
+                <p className="error-title">{messages.errorTitle}</p>
+                <p className="error-detail">{failure?.message ?? messages.errorFallback}</p>
+                {failure?.detail && (
+                  <details className="error-technical">
+                    <summary>{messages.errorDetails}</summary>
+                    <code>{failure.detail}</code>
+                  </details>
+                )}
+                {/* Mid-chat, both buttons carry on from where it stopped instead of starting over */}
+                <button
+                  onClick={() => (failure?.startsOver ? startConversation() : history.length > 0 ? resumeConversation(false) : resetConversation())}
+                  className="retry-btn"
+                >
+                  {messages.tryAgain}
                 </button>
-                <div style={{ marginTop: '15px' }}>
-                  <button onClick={() => { setAppState('IDLE'); startConversation(true); }} style={{ background: 'none', border: 'none', color: '#666', textDecoration: 'underline', cursor: 'pointer' }}>
-                    Or try disconnected Demo Mode
-                  </button>
-                </div>
-                <div style={{ marginTop: '10px' }}>
-                  <button onClick={handleResetKey} style={{ background: 'none', border: 'none', color: '#FF6B6B', fontSize: '0.9rem', cursor: 'pointer' }}>
-                    (Change My API Key)
+                {provider?.id !== 'demo' && (
+                  <div style={{ marginTop: '15px' }}>
+                    <button
+                      onClick={() => (history.length > 0 ? resumeConversation(true) : startConversation(true))}
+                      style={{ background: 'none', border: 'none', color: '#666', textDecoration: 'underline', cursor: 'pointer' }}
+                    >
+                      {history.length > 0 ? messages.keepPlayingInDemo : messages.tryDemoInstead}
+                    </button>
+                  </div>
+                )}
+                {!PROXY_URL && <div style={{ marginTop: '10px' }}>
+                  <button onClick={() => setParentView('gate')} style={{ background: 'none', border: 'none', color: '#FF6B6B', fontSize: '0.9rem', cursor: 'pointer' }}>
+                    {messages.changeApiKey}
                   </button>
-                </div>
+                </div>}
               </div>
             </div>
           )}
@@ -254,26 +1031,130 @@ function App() {
           </div>
 
           <div className="dialogue-box">
-            <p className="ai-text">{lastAIResponse || "Ready to play?"}</p>
-            {transcript && <p className="user-transcript">You: {transcript}</p>}
+            <p className="buddy-name">{persona.avatar} {persona.name}</p>
+            {lastAIResponse
+              ? <ReadAlong text={lastAIResponse} progress={speechProgress} canTap={canTapWords} onWordTap={handleWordTap} />
+              : <p className="ai-text">{messages.readyToPlay}</p>}
+            {pointedAt && <p className="pointing-hint">{messages.pointedHere}</p>}
+            {transcript && <p className={`user-transcript${isTranscriptFinal ? '' : ' is-interim'}`}>{messages.youSaid(transcript)}</p>}
 
             {appState === 'LISTENING' && (
               <div style={{ marginTop: '15px', width: '100%', display: 'flex', gap: '10px' }}>
                 <input
                   type="text"
-                  placeholder="Or type here if mic isn't working..."
+                  placeholder={messages.typeInstead}
                   style={{ flex: 1, padding: '10px', borderRadius: '15px', border: '1px solid #ddd' }}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter') {
-                      handleUserResponse((e.target as HTMLInputElement).value);
+                      submitUtterance((e.target as HTMLInputElement).value);
                     }
                   }}
                 />
+                {parentSettings.childCanPickPictures && (
+                  <button onClick={handleOpenPictures} className="upload-btn new-picture-btn" aria-label={messages.newPicture} title={messages.newPicture}>
+                    <Camera size={20} />
+                  </button>
+                )}
               </div>
             )}
           </div>
         </div>
       </main>
+
+      {parentView === 'gate' && (
+        <ParentGate
+          messages={messages}
+          pinHash={parentSettings.pinHash}
+          onPass={() => setParentView('settings')}
+          onClose={() => setParentView(null)}
+        />
+      )}
+      {parentView === 'settings' && (
+        <SettingsPanel
+          messages={messages}
+          providerLabel={hasKey ? configuredProvider?.label ?? '' : null}
+          isProxy={PROXY_URL !== null}
+          providerSettings={settings}
+          demoScript={demoScript}
+          onProviderChange={updateSettings}
+          onProviderSave={handleSaveKey}
+          onProviderReset={handleResetKey}
+          onDemoScriptUpload={handleDemoScriptUpload}
+          onClearDemoScript={() => updateDemoScript(null)}
+          language={language}
+          onLanguageChange={handleLanguageChange}
+          personaLabel={`${persona.avatar} ${messages.buddyButton(persona.name)}`}
+          profiles={profiles}
+          profileId={profile?.id ?? ''}
+          onSelectProfile={handleSelectProfile}
+          lessonGoal={lessonGoal}
+          onSelectLesson={handleSelectLesson}
+          onOpenPersonas={() => setShowPersonas(true)}
+          onOpenProfiles={() => setShowProfiles(true)}
+          onOpenHistory={() => setShowHistory(true)}
+          sessionConfig={sessionConfig}
+          onSessionConfigChange={handleSessionConfigChange}
+          safetySettings={safetySettings}
+          onSafetyChange={handleSafetyChange}
+          speechSettings={speechSettings}
+          onSpeechChange={handleSpeechChange}
+          parentSettings={parentSettings}
+          onParentSettingsChange={handleParentSettingsChange}
+          playedToday={messages.playedToday(formatDuration(usedTodayMs, messages))}
+          isUnlockedToday={parentSettings.dailyLimitMinutes !== null && remainingMs === null}
+          onUnlockToday={unlockToday}
+          onClose={() => setParentView(null)}
+        />
+      )}
+      {showStory && book && (
+        <Storybook
+          messages={messages}
+          book={book}
+          onSpeak={(text, onDone) => speak(text, onDone)}
+          onStopSpeaking={cancelSpeech}
+          onClose={handleCloseStory}
+        />
+      )}
+      {showHistory && (
+        <ParentHistory
+          messages={messages}
+          language={language}
+          costSettings={costSettings}
+          onCostSettingsChange={handleCostSettingsChange}
+          onClose={handleCloseHistory}
+          onReplay={handleReplay}
+        />
+      )}
+      {showPictures && (
+        <PicturePicker
+          messages={messages}
+          imageOptions={imageOptions}
+          onPick={handlePickPicture}
+          onClose={handleClosePictures}
+        />
+      )}
+      {showProfiles && (
+        <ProfilePanel
+          messages={messages}
+          profiles={profiles}
+          onSave={handleSaveProfile}
+          onDelete={handleDeleteProfile}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+      {showPersonas && (
+        <PersonaPanel
+          messages={messages}
+          personas={personas}
+          selectedId={persona.id}
+          locale={locale}
+          onSelect={handleSelectPersona}
+          onSave={handleSavePersona}
+          onDelete={handleDeletePersona}
+          onPreview={(p) => speak(messages.personaPreview(p.name), undefined, voiceFor(p))}
+          onClose={handleClosePersonas}
+        />
+      )}
     </div>
   );
 }
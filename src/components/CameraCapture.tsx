@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Check, RotateCcw } from 'lucide-react';
+import { ImageError, prepareImage, type ImageOptions } from '../utils/image';
+import type { Messages } from '../lib/i18n';
+
+interface CameraCaptureProps {
+  messages: Messages;
+  imageOptions: ImageOptions;
+  onCapture: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+// Live preview from the camera (the back one on phones), snap a still, then retake or use it
+function CameraCapture({ messages, imageOptions, onCapture, onCancel }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // The camera is only on while the preview shows; stopping the tracks turns its light off too
+  useEffect(() => {
+    if (snapshot) return;
+    let stream: MediaStream | null = null;
+    let isCancelled = false;
+
+    // Without a secure context mediaDevices is missing entirely, which lands in the catch as well
+    Promise.resolve()
+      .then(() => navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false }))
+      .then(s => {
+        stream = s;
+        if (isCancelled) s.getTracks().forEach(track => track.stop());
+        else if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => {
+        console.warn("Couldn't start the camera", e);
+        if (!isCancelled) setError(messages.cameraError);
+      });
+
+    return () => {
+      isCancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [snapshot, messages.cameraError]);
+
+  const handleSnap = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.95));
+
+    try {
+      if (!blob) throw new ImageError('unreadable', "The camera frame couldn't be encoded");
+      // Same shrinking as an uploaded file, so a phone camera's full resolution never gets sent
+      setSnapshot(await prepareImage(blob, imageOptions));
+    } catch (e) {
+      console.warn("Couldn't use that photo", e);
+      setError(messages.imageErrors[e instanceof ImageError ? e.reason : 'unreadable']);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="camera-capture">
+        <p className="image-error">{error}</p>
+        <div className="session-actions">
+          <button onClick={onCancel} className="upload-btn">{messages.back}</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="camera-capture">
+      {snapshot
+        ? <img src={snapshot} alt={messages.galleryPictureAlt} className="camera-view" />
+        : <video ref={videoRef} className="camera-view" autoPlay playsInline muted />}
+      <div className="session-actions">
+        {snapshot ? (
+          <>
+            <button onClick={() => onCapture(snapshot)} className="upload-btn"><Check size={18} /> {messages.usePhoto}</button>
+            <button onClick={() => setSnapshot(null)} className="upload-btn"><RotateCcw size={18} /> {messages.retake}</button>
+          </>
+        ) : (
+          <button onClick={handleSnap} className="upload-btn"><Camera size={18} /> {messages.snap}</button>
+        )}
+        <button onClick={onCancel} className="upload-btn">{messages.cancel}</button>
+      </div>
+    </div>
+  );
+}
+
+export default CameraCapture;
@@ -0,0 +1,61 @@
+import { EMPTY_USAGE, addUsage, estimateCost, formatCost, type CostSettings } from '../lib/cost';
+import type { StoredSession } from '../lib/sessionStore';
+import type { Messages } from '../lib/i18n';
+
+interface CostPanelProps {
+  messages: Messages;
+  sessions: StoredSession[];
+  settings: CostSettings;
+  onChange: (settings: CostSettings) => void;
+}
+
+const isToday = (at: number) => new Date(at).toDateString() === new Date().toDateString();
+
+// Token totals and their rough price, plus the prices and the per-chat cap
+function CostPanel({ messages, sessions, settings, onChange }: CostPanelProps) {
+  const total = sessions.reduce((sum, s) => addUsage(sum, s.usage ?? EMPTY_USAGE), EMPTY_USAGE);
+  const today = sessions.filter(s => isToday(s.startedAt)).reduce((sum, s) => addUsage(sum, s.usage ?? EMPTY_USAGE), EMPTY_USAGE);
+
+  const updatePrice = (key: 'inputPricePerMillion' | 'outputPricePerMillion', value: string) => {
+    const price = Number(value);
+    if (Number.isFinite(price) && price >= 0) onChange({ ...settings, [key]: price });
+  };
+
+  const updateCap = (value: string) => {
+    const cap = Number(value);
+    onChange({ ...settings, sessionCapUsd: value.trim() && Number.isFinite(cap) && cap > 0 ? cap : null });
+  };
+
+  return (
+    <div className="cost-panel">
+      <h3>💰 {messages.costs}</h3>
+      <div className="cost-totals">
+        <div>
+          <strong>{messages.costToday}: {formatCost(estimateCost(today, settings))}</strong>
+          <span className="transcript-meta">{messages.tokenCount(today.promptTokens, today.completionTokens)}</span>
+        </div>
+        <div>
+          <strong>{messages.costAllChats}: {formatCost(estimateCost(total, settings))}</strong>
+          <span className="transcript-meta">{messages.tokenCount(total.promptTokens, total.completionTokens)}</span>
+        </div>
+      </div>
+      <div className="cost-settings">
+        <label>
+          {messages.inputPrice}
+          <input type="number" min={0} step={0.01} value={settings.inputPricePerMillion} onChange={(e) => updatePrice('inputPricePerMillion', e.target.value)} />
+        </label>
+        <label>
+          {messages.outputPrice}
+          <input type="number" min={0} step={0.01} value={settings.outputPricePerMillion} onChange={(e) => updatePrice('outputPricePerMillion', e.target.value)} />
+        </label>
+        <label>
+          {messages.sessionCap}
+          <input type="number" min={0} step={0.01} value={settings.sessionCapUsd ?? ''} onChange={(e) => updateCap(e.target.value)} />
+        </label>
+      </div>
+      <p className="transcript-meta">{messages.costNote}</p>
+    </div>
+  );
+}
+
+export default CostPanel;
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { Lock, X } from 'lucide-react';
+import { createMathChallenge, hashPin } from '../lib/parental';
+import type { Messages } from '../lib/i18n';
+
+interface ParentGateProps {
+  messages: Messages;
+  pinHash: string | null; // Null asks a sum instead
+  onPass: () => void;
+  onClose: () => void;
+}
+
+const WRONG_ANSWER_PAUSE_MS = 3000;
+
+// Stands in front of the grown-ups' settings: the parent's PIN, or a sum a young child can't do yet.
+// Each wrong answer gets a new sum and a short pause, so guessing doesn't get a child through.
+function ParentGate({ messages, pinHash, onPass, onClose }: ParentGateProps) {
+  const [challenge, setChallenge] = useState(() => createMathChallenge());
+  const [answer, setAnswer] = useState('');
+  const [isWrong, setIsWrong] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // crypto.subtle is missing on plain-http origins; the sum still lets the parent in there
+  const [canCheckPin, setCanCheckPin] = useState(true);
+  const usesPin = pinHash !== null && canCheckPin;
+  const pauseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (pauseTimerRef.current !== null) clearTimeout(pauseTimerRef.current);
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isPaused) return;
+    let isRight: boolean;
+    if (usesPin) {
+      try {
+        isRight = (await hashPin(answer.trim())) === pinHash;
+      } catch (e) {
+        console.warn("Couldn't check the PIN", e);
+        setCanCheckPin(false);
+        setAnswer('');
+        setIsWrong(false);
+        return;
+      }
+    } else {
+      isRight = Number(answer.trim()) === challenge.answer;
+    }
+    if (isRight) {
+      onPass();
+      return;
+    }
+    setIsWrong(true);
+    setAnswer('');
+    setChallenge(createMathChallenge());
+    setIsPaused(true);
+    pauseTimerRef.current = setTimeout(() => setIsPaused(false), WRONG_ANSWER_PAUSE_MS);
+  };
+
+  return (
+    <div className="parent-panel-backdrop">
+      <form className="parent-panel parent-gate" onSubmit={handleSubmit}>
+        <div className="parent-panel-header">
+          <span />
+          <h2><Lock size={20} /> {messages.parentGateTitle}</h2>
+          <button type="button" onClick={onClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="persona-form">
+          <label>
+            {usesPin ? messages.parentGatePin : messages.parentGateMath(challenge.a, challenge.b)}
+            <input
+              type={usesPin ? 'password' : 'text'}
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={answer}
+              onChange={(e) => {
+                setAnswer(e.target.value);
+                setIsWrong(false);
+              }}
+            />
+          </label>
+          {!canCheckPin && <p className="parent-gate-wrong">{messages.parentGatePinUnavailable}</p>}
+          {isWrong && <p className="parent-gate-wrong">{messages.parentGateWrong}</p>}
+          <div className="session-actions">
+            <button type="submit" className="upload-btn" disabled={!answer.trim() || isPaused}>{messages.unlock}</button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default ParentGate;
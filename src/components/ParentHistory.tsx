@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, BookOpen, Download, Trash2, Volume2, X } from 'lucide-react';
+import { deleteSession, listSessions, type StoredSession } from '../lib/sessionStore';
+import { sessionToJSON, sessionToMarkdown } from '../lib/sessionExport';
+import { storybookFileName, storybookToHtml } from '../lib/storybook';
+import type { Messages } from '../lib/i18n';
+import { estimateCost, formatCost, type CostSettings } from '../lib/cost';
+import { downloadFile } from '../utils/download';
+import CostPanel from './CostPanel';
+
+interface ParentHistoryProps {
+  messages: Messages;
+  language: string; // For the printable storybook
+
+  costSettings: CostSettings;
+  onCostSettingsChange: (settings: CostSettings) => void;
+  onClose: () => void;
+  onReplay: (session: StoredSession) => void;
+}
+
+const fileNameFor = (session: StoredSession, extension: string) =>
+  `magic-buddy-${new Date(session.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+
+function ParentHistory({ messages, language, costSettings, onCostSettingsChange, onClose, onReplay }: ParentHistoryProps) {
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  const [selected, setSelected] = useState<StoredSession | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((e) => {
+        console.error("Failed to load sessions", e);
+        setLoadError(messages.loadFailed);
+      });
+  }, [messages]);
+
+  const handleDelete = async (session: StoredSession) => {
+    if (!confirm(messages.confirmDelete)) return;
+    try {
+      await deleteSession(session.id);
+    } catch (e) {
+      console.error("Failed to delete the session", e);
+      setDeleteError(messages.deleteFailed);
+      return;
+    }
+    setDeleteError('');
+    setSessions(prev => prev?.filter(s => s.id !== session.id) ?? null);
+    setSelected(null);
+  };
+
+  // One HTML file with the pictures inside, laid out for printing
+  const handleExportStory = (session: StoredSession) => {
+    if (!session.story) return;
+    downloadFile(storybookFileName(session.story), storybookToHtml(session.story, language), 'text/html');
+  };
+
+  return (
+    <div className="parent-panel-backdrop">
+      <div className="parent-panel">
+        <div className="parent-panel-header">
+          {selected ? (
+            <button
+              onClick={() => {
+                setSelected(null);
+                setDeleteError('');
+              }}
+              className="icon-btn"
+              aria-label={messages.back}
+            >
+              <ArrowLeft size={20} />
+            </button>
+          ) : <span />}
+          <h2>{selected ? messages.chatTitle(new Date(selected.startedAt).toLocaleString()) : messages.pastChats}</h2>
+          <button onClick={onClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {!selected && (
+          <div className="session-list">
+            {loadError && <p className="parent-panel-empty">{loadError}</p>}
+            {!loadError && sessions === null && <p className="parent-panel-empty">{messages.loading}</p>}
+            {!!sessions?.length && <CostPanel messages={messages} sessions={sessions} settings={costSettings} onChange={onCostSettingsChange} />}
+            {sessions?.length === 0 && <p className="parent-panel-empty">{messages.noChats}</p>}
+            {sessions?.map(session => (
+              <button key={session.id} className="session-row" onClick={() => setSelected(session)}>
+                {session.thumbnail ? <img src={session.thumbnail} alt="" /> : <span className="session-thumb-placeholder">🖼️</span>}
+                <span className="session-row-text">
+                  <strong>{new Date(session.startedAt).toLocaleString()}</strong>
+                  <span>
+                    {messages.repliesFromChild(session.turns.filter(t => t.speaker === 'child').length)}
+                    {session.isDemoMode && <em className="demo-badge">{messages.demoBadge}</em>}
+                    {!!session.interventions?.length && <em className="demo-badge safety-badge">🛡️ {session.interventions.length}</em>}
+                    {!!session.usage?.promptTokens && <em className="demo-badge">💰 {formatCost(estimateCost(session.usage, costSettings))}</em>}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selected && (
+          <>
+            <div className="session-actions">
+              <button onClick={() => onReplay(selected)} className="upload-btn"><Volume2 size={18} /> {messages.replay}</button>
+              <button onClick={() => downloadFile(fileNameFor(selected, 'json'), sessionToJSON(selected), 'application/json')} className="upload-btn">
+                <Download size={18} /> JSON
+              </button>
+              <button onClick={() => downloadFile(fileNameFor(selected, 'md'), sessionToMarkdown(selected), 'text/markdown')} className="upload-btn">
+                <Download size={18} /> Markdown
+              </button>
+              {selected.story && (
+                <button
+                  onClick={() => handleExportStory(selected)}
+                  className="upload-btn"
+                  title={messages.printStory}
+                >
+                  <BookOpen size={18} /> {messages.storybook}
+                </button>
+              )}
+              <button onClick={() => handleDelete(selected)} className="upload-btn danger-btn"><Trash2 size={18} /> {messages.delete}</button>
+            </div>
+            {deleteError && <p className="parent-gate-wrong">{deleteError}</p>}
+            <div className="session-transcript">
+              {selected.thumbnail && <img src={selected.thumbnail} alt={messages.chatImageAlt} className="session-image" />}
+              {selected.turns.map((turn, i) => (
+                <div key={i} className={`transcript-turn ${turn.speaker}`}>
+                  <span className="transcript-meta">
+                    {turn.speaker === 'child' ? messages.childLabel : messages.buddyLabel} · {new Date(turn.at).toLocaleTimeString()}
+                    {!!turn.usage?.promptTokens && <> · {messages.tokenCount(turn.usage.promptTokens, turn.usage.completionTokens)}</>}
+                  </span>
+                  <p>{turn.text}</p>
+                  {turn.picture && <img src={turn.picture} alt={messages.chatImageAlt} className="session-image" />}
+                  {turn.toolCalls?.map((call, j) => (
+                    <span key={j} className="transcript-tool">🛠️ {call.name} {call.arguments}</span>
+                  ))}
+                </div>
+              ))}
+              {!!selected.interventions?.length && (
+                <div className="safety-log">
+                  <h3>🛡️ {messages.safety}</h3>
+                  {selected.interventions.map((item, i) => (
+                    <p key={i}>
+                      <span className="transcript-meta">{new Date(item.at).toLocaleTimeString()}</span>{' '}
+                      {messages.intervention(item.action === 'blocked', item.direction === 'child', item.kind, item.detail)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ParentHistory;
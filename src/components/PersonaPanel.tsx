@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Pencil, Plus, Trash2, Volume2, X } from 'lucide-react';
+import { createPersona, type Persona } from '../lib/persona';
+import type { Messages } from '../lib/i18n';
+import { SERVER_VOICES, getVoicesFor } from '../lib/textToSpeech';
+
+interface PersonaPanelProps {
+  messages: Messages;
+  personas: Persona[];
+  selectedId: string;
+  locale: string;
+  onSelect: (id: string) => void;
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+  onPreview: (persona: Persona) => void;
+  onClose: () => void;
+}
+
+// Voices load asynchronously in most browsers, so keep the list fresh for the voice picker
+const useVoices = (locale: string) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => window.speechSynthesis.getVoices());
+
+  useEffect(() => {
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return getVoicesFor(voices, locale);
+};
+
+function PersonaPanel({ messages, personas, selectedId, locale, onSelect, onSave, onDelete, onPreview, onClose }: PersonaPanelProps) {
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const voices = useVoices(locale);
+  const selected = personas.find(p => p.id === selectedId) ?? personas[0];
+
+  const updateDraft = (patch: Partial<Persona>) => {
+    setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim(), avatar: draft.avatar.trim() || '⭐' });
+    setDraft(null);
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!confirm(messages.confirmDeleteBuddy)) return;
+    onDelete(persona.id);
+    setDraft(null);
+  };
+
+  const isNew = draft !== null && !personas.some(p => p.id === draft.id);
+
+  return (
+    <div className="parent-panel-backdrop">
+      <div className="parent-panel">
+        <div className="parent-panel-header">
+          {draft ? (
+            <button onClick={() => setDraft(null)} className="icon-btn" aria-label={messages.back}>
+              <ArrowLeft size={20} />
+            </button>
+          ) : <span />}
+          <h2>{draft ? (isNew ? messages.newBuddy : messages.editBuddy) : messages.chooseBuddy}</h2>
+          <button onClick={onClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {!draft && (
+          <>
+            <div className="session-list">
+              {personas.map(persona => (
+                <div key={persona.id} className={`session-row persona-row ${persona.id === selectedId ? 'selected' : ''}`}>
+                  <span className="session-thumb-placeholder">{persona.avatar}</span>
+                  <span className="session-row-text">
+                    <strong>
+                      {persona.name}
+                      {persona.isBuiltIn && <em className="demo-badge">{messages.builtInBadge}</em>}
+                    </strong>
+                    <span>{persona.personality}</span>
+                  </span>
+                  <span className="persona-row-actions">
+                    <button onClick={() => onPreview(persona)} className="icon-btn" aria-label={messages.preview}>
+                      <Volume2 size={18} />
+                    </button>
+                    {!persona.isBuiltIn && (
+                      <button onClick={() => setDraft(persona)} className="icon-btn" aria-label={messages.edit}>
+                        <Pencil size={18} />
+                      </button>
+                    )}
+                    {persona.id === selectedId
+                      ? <em className="demo-badge">{messages.inUse}</em>
+                      : <button onClick={() => onSelect(persona.id)} className="upload-btn">{messages.useBuddy}</button>}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="session-actions">
+              <button onClick={() => setDraft(createPersona(selected))} className="upload-btn"><Plus size={18} /> {messages.newBuddy}</button>
+            </div>
+          </>
+        )}
+
+        {draft && (
+          <div className="persona-form">
+            <label>
+              {messages.personaName}
+              <input type="text" value={draft.name} maxLength={40} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </label>
+            <label>
+              {messages.personaAvatar}
+              <input type="text" value={draft.avatar} maxLength={8} onChange={(e) => updateDraft({ avatar: e.target.value })} />
+            </label>
+            <label>
+              {messages.personaPersonality}
+              <textarea rows={3} value={draft.personality} maxLength={500} onChange={(e) => updateDraft({ personality: e.target.value })} />
+            </label>
+            <label>
+              {messages.personaGreeting}
+              <textarea rows={2} value={draft.greetingStyle} maxLength={500} onChange={(e) => updateDraft({ greetingStyle: e.target.value })} />
+            </label>
+            <label>
+              {messages.personaVoice}
+              <input
+                type="text"
+                list="persona-voices"
+                placeholder={messages.automaticVoice}
+                value={draft.voiceName}
+                onChange={(e) => updateDraft({ voiceName: e.target.value })}
+              />
+              <datalist id="persona-voices">
+                {voices.map(voice => <option key={voice.voiceURI} value={voice.name} />)}
+                {/* Used when the buddy talks through the server (see Speech in the README) */}
+                {SERVER_VOICES.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </label>
+            <label>
+              {messages.personaPitch} ({draft.pitch.toFixed(1)})
+              <input type="range" min={0.5} max={2} step={0.1} value={draft.pitch} onChange={(e) => updateDraft({ pitch: Number(e.target.value) })} />
+            </label>
+            <label>
+              {messages.personaRate} ({draft.rate.toFixed(2)})
+              <input type="range" min={0.5} max={1.5} step={0.05} value={draft.rate} onChange={(e) => updateDraft({ rate: Number(e.target.value) })} />
+            </label>
+
+            <div className="session-actions">
+              <button onClick={() => onPreview(draft)} className="upload-btn"><Volume2 size={18} /> {messages.preview}</button>
+              <button onClick={handleSave} className="upload-btn" disabled={!draft.name.trim()}>{messages.save}</button>
+              <button onClick={() => setDraft(null)} className="upload-btn">{messages.cancel}</button>
+              {!isNew && (
+                <button onClick={() => handleDelete(draft)} className="upload-btn danger-btn"><Trash2 size={18} /> {messages.delete}</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PersonaPanel;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, Trash2, Upload, X } from 'lucide-react';
+import { BUNDLED_PICTURES, addRecentPicture, deleteRecentPicture, listRecentPictures, type GalleryPicture } from '../lib/gallery';
+import { ImageError, convertFileToBase64, type ImageOptions } from '../utils/image';
+import type { Messages } from '../lib/i18n';
+import CameraCapture from './CameraCapture';
+
+interface PicturePickerProps {
+  messages: Messages;
+  imageOptions: ImageOptions;
+  onPick: (src: string) => void;
+  onClose: () => void;
+}
+
+// Bundled pictures, recent uploads and snaps, plus the camera and the file upload
+function PicturePicker({ messages, imageOptions, onPick, onClose }: PicturePickerProps) {
+  const [recent, setRecent] = useState<GalleryPicture[]>([]);
+  const [showCamera, setShowCamera] = useState(false);
+  const [imageError, setImageError] = useState('');
+
+  useEffect(() => {
+    listRecentPictures()
+      .then(setRecent)
+      .catch(e => console.warn("Couldn't load recent pictures", e));
+  }, []);
+
+  // New pictures are remembered for next time; saving happens in the background
+  const pickNew = (src: string) => {
+    addRecentPicture(src).catch(e => console.warn("Couldn't save the picture to the gallery", e));
+    onPick(src);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again after an error
+    if (!file) return;
+    try {
+      pickNew(await convertFileToBase64(file, imageOptions));
+    } catch (error) {
+      console.warn("Couldn't use that picture", error);
+      setImageError(messages.imageErrors[error instanceof ImageError ? error.reason : 'unreadable']);
+    }
+  };
+
+  const handleRemove = async (picture: GalleryPicture) => {
+    try {
+      await deleteRecentPicture(picture.id);
+    } catch (e) {
+      console.warn("Couldn't remove the picture from the gallery", e);
+      setImageError(messages.removePictureFailed);
+      return;
+    }
+    setImageError('');
+    setRecent(prev => prev.filter(p => p.id !== picture.id));
+  };
+
+  return (
+    <div className="parent-panel-backdrop">
+      <div className="parent-panel">
+        <div className="parent-panel-header">
+          <span />
+          <h2>{showCamera ? messages.takePhoto : messages.pictureGallery}</h2>
+          <button onClick={onClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {showCamera && (
+          <CameraCapture messages={messages} imageOptions={imageOptions} onCapture={pickNew} onCancel={() => setShowCamera(false)} />
+        )}
+
+        {!showCamera && (
+          <>
+            <div className="session-actions">
+              <button onClick={() => setShowCamera(true)} className="upload-btn"><Camera size={18} /> {messages.takePhoto}</button>
+              <label className="upload-btn">
+                <Upload size={18} /> {messages.uploadPicture}
+                <input type="file" accept="image/*" onChange={handleUpload} hidden />
+              </label>
+            </div>
+            {imageError && <p className="image-error">{imageError}</p>}
+
+            <h3>{messages.bundledPictures}</h3>
+            <div className="picture-grid">
+              {BUNDLED_PICTURES.map(picture => (
+                <button key={picture.id} className="picture-tile" onClick={() => onPick(picture.src)}>
+                  <img src={picture.src} alt={messages.galleryPictureAlt} />
+                </button>
+              ))}
+            </div>
+
+            <h3>{messages.recentPictures}</h3>
+            {recent.length === 0 && <p className="transcript-meta">{messages.noRecentPictures}</p>}
+            <div className="picture-grid">
+              {recent.map(picture => (
+                <div key={picture.id} className="picture-tile-wrapper">
+                  <button className="picture-tile" onClick={() => pickNew(picture.src)}>
+                    <img src={picture.src} alt={messages.galleryPictureAlt} />
+                  </button>
+                  <button onClick={() => handleRemove(picture)} className="icon-btn picture-remove" aria-label={messages.removePicture}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PicturePicker;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Plus, Trash2, X } from 'lucide-react';
+import { MAX_AGE, MIN_AGE, createProfile, type ChildProfile } from '../lib/profile';
+import type { Messages } from '../lib/i18n';
+import { listSessions, type StoredSession } from '../lib/sessionStore';
+import ProgressReport from './ProgressReport';
+
+interface ProfilePanelProps {
+  messages: Messages;
+  profiles: ChildProfile[];
+  onSave: (profile: ChildProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Interests are edited as one comma-separated line, so keep the raw text while typing
+type Draft = ChildProfile & { interestsText: string };
+
+const toDraft = (profile: ChildProfile): Draft => ({ ...profile, interestsText: profile.interests.join(', ') });
+
+function ProfilePanel({ messages, profiles, onSave, onDelete, onClose }: ProfilePanelProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  // For the progress report; a child with no saved lessons just shows the empty message
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => console.error("Failed to load sessions", e));
+  }, []);
+
+  const updateDraft = (patch: Partial<Draft>) => {
+    setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const { interestsText, ...profile } = draft;
+    onSave({
+      ...profile,
+      name: profile.name.trim(),
+      age: Math.min(MAX_AGE, Math.max(MIN_AGE, Math.round(profile.age) || MIN_AGE)),
+      interests: interestsText.split(',').map(i => i.trim()).filter(Boolean),
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (profile: ChildProfile) => {
+    if (!confirm(messages.confirmDeleteChild)) return;
+    onDelete(profile.id);
+    setDraft(null);
+  };
+
+  const isNew = draft !== null && !profiles.some(p => p.id === draft.id);
+
+  return (
+    <div className="parent-panel-backdrop">
+      <div className="parent-panel">
+        <div className="parent-panel-header">
+          {draft ? (
+            <button onClick={() => setDraft(null)} className="icon-btn" aria-label={messages.back}>
+              <ArrowLeft size={20} />
+            </button>
+          ) : <span />}
+          <h2>{draft ? (isNew ? messages.addChild : messages.editChild) : messages.childProfiles}</h2>
+          <button onClick={onClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {!draft && (
+          <>
+            <div className="session-list">
+              {profiles.length === 0 && <p className="parent-panel-empty">{messages.noProfiles}</p>}
+              {profiles.map(profile => (
+                <button key={profile.id} className="session-row" onClick={() => setDraft(toDraft(profile))}>
+                  <span className="session-thumb-placeholder">🧒</span>
+                  <span className="session-row-text">
+                    <strong>{profile.name}</strong>
+                    <span>{messages.profileSummary(profile.age, profile.memories.length)}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="session-actions">
+              <button onClick={() => setDraft(toDraft(createProfile()))} className="upload-btn"><Plus size={18} /> {messages.addChild}</button>
+            </div>
+          </>
+        )}
+
+        {draft && (
+          <div className="persona-form">
+            <label>
+              {messages.childName}
+              <input type="text" value={draft.name} maxLength={40} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </label>
+            <label>
+              {messages.childAge}
+              <input type="number" min={MIN_AGE} max={MAX_AGE} value={draft.age} onChange={(e) => updateDraft({ age: Number(e.target.value) })} />
+            </label>
+            <label>
+              {messages.childInterests}
+              <input type="text" value={draft.interestsText} onChange={(e) => updateDraft({ interestsText: e.target.value })} />
+            </label>
+
+            <div className="memory-list">
+              <h3>{messages.memoriesTitle}</h3>
+              {draft.memories.length === 0 && <p className="transcript-meta">{messages.noMemories}</p>}
+              {draft.memories.map(memory => (
+                <div key={memory.id} className="memory-item">
+                  <span>
+                    {memory.fact}
+                    <span className="transcript-meta"> · {new Date(memory.learnedAt).toLocaleDateString()}</span>
+                  </span>
+                  <button
+                    onClick={() => updateDraft({ memories: draft.memories.filter(m => m.id !== memory.id) })}
+                    className="icon-btn"
+                    aria-label={messages.forget}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {!isNew && <ProgressReport messages={messages} sessions={sessions} profileId={draft.id} />}
+
+            <div className="session-actions">
+              <button onClick={handleSave} className="upload-btn" disabled={!draft.name.trim()}>{messages.save}</button>
+              <button onClick={() => setDraft(null)} className="upload-btn">{messages.cancel}</button>
+              {!isNew && (
+                <button onClick={() => handleDelete(draft)} className="upload-btn danger-btn"><Trash2 size={18} /> {messages.delete}</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProfilePanel;
@@ -0,0 +1,36 @@
+import { LESSON_EMOJI, buildProgressReport } from '../lib/lessons';
+import type { StoredSession } from '../lib/sessionStore';
+import type { Messages } from '../lib/i18n';
+
+interface ProgressReportProps {
+  messages: Messages;
+  sessions: StoredSession[];
+  profileId: string;
+}
+
+// Which skills a child practised in lessons, how often, and the last few things they got right
+function ProgressReport({ messages, sessions, profileId }: ProgressReportProps) {
+  const report = buildProgressReport(sessions, profileId);
+
+  return (
+    <div className="progress-report">
+      <h3>{messages.progressTitle}</h3>
+      {report.length === 0 && <p className="transcript-meta">{messages.noProgress}</p>}
+      {report.map(skill => (
+        <div key={skill.goal} className="progress-skill">
+          <span className="progress-emoji">{LESSON_EMOJI[skill.goal]}</span>
+          <span className="session-row-text">
+            <strong>{messages.lessonGoals[skill.goal]}</strong>
+            <span>{messages.progressSummary(skill.sessions, skill.stars)}</span>
+            <span className="transcript-meta">
+              {messages.lastPractised(new Date(skill.lastPractisedAt).toLocaleDateString())}
+              {skill.recentSkills.length > 0 && <> · {skill.recentSkills.join(', ')}</>}
+            </span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ProgressReport;
@@ -0,0 +1,66 @@
+import type { ChangeEvent } from 'react';
+import type { ProviderKind, ProviderSettings } from '../lib/provider';
+import type { DemoScript } from '../lib/demoScript';
+import type { Messages } from '../lib/i18n';
+
+interface ProviderSetupProps {
+  messages: Messages;
+  settings: ProviderSettings;
+  demoScript: DemoScript | null;
+  onChange: (patch: Partial<ProviderSettings>) => void;
+  onSave: () => void;
+  onDemoScriptUpload: (e: ChangeEvent<HTMLInputElement>) => void;
+  onClearDemoScript: () => void;
+}
+
+// Which AI the buddy runs on: OpenAI, a local OpenAI-compatible server, or the scripted demo
+function ProviderSetup({ messages, settings, demoScript, onChange, onSave, onDemoScriptUpload, onClearDemoScript }: ProviderSetupProps) {
+  return (
+    <div className="api-key-input">
+      <select
+        value={settings.kind}
+        onChange={(e) => onChange({ kind: e.target.value as ProviderKind })}
+      >
+        <option value="openai">{messages.providerOpenAI}</option>
+        <option value="compatible">{messages.providerLocal}</option>
+        <option value="demo">{messages.providerDemo}</option>
+      </select>
+      {settings.kind === 'compatible' && (
+        <>
+          <input
+            type="url"
+            placeholder={messages.serverUrlPlaceholder}
+            value={settings.baseURL}
+            onChange={(e) => onChange({ baseURL: e.target.value })}
+          />
+          <input
+            type="text"
+            placeholder={messages.modelPlaceholder}
+            value={settings.model}
+            onChange={(e) => onChange({ model: e.target.value })}
+          />
+        </>
+      )}
+      {settings.kind === 'demo' && (
+        <>
+          <label className="upload-btn demo-script-btn">
+            {demoScript ? messages.demoScriptLoaded(demoScript.id) : messages.loadDemoScript}
+            <input type="file" accept="application/json,.json" onChange={onDemoScriptUpload} hidden />
+          </label>
+          {demoScript && <button onClick={onClearDemoScript} className="link-btn">{messages.useBuiltInScripts}</button>}
+        </>
+      )}
+      {settings.kind !== 'demo' && (
+        <input
+          type="password"
+          placeholder={settings.kind === 'openai' ? messages.openAIKeyPlaceholder : messages.optionalKeyPlaceholder}
+          value={settings.apiKey}
+          onChange={(e) => onChange({ apiKey: e.target.value })}
+        />
+      )}
+      <button onClick={onSave}>{messages.save}</button>
+    </div>
+  );
+}
+
+export default ProviderSetup;
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { SpeechProgress } from '../hooks/useSpeech';
+
+interface ReadAlongProps {
+  text: string;
+  progress: SpeechProgress | null;
+  canTap: boolean; // Only between turns; the buddy can't be talking over itself
+  onWordTap: (word: string) => void;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  spoken: string; // Without the punctuation, for saying it again
+}
+
+const toWords = (text: string): Word[] =>
+  [...text.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    start: match.index,
+    spoken: match[0].replace(/[^\p{L}\p{M}\p{N}'’-]/gu, ''),
+  }));
+
+// The word being said, or -1. Sentences are found by their text, so a line that isn't part of the
+// caption (a "let me think" filler, a persona preview) highlights nothing. Each one is looked for after
+// the ones said before it, so a sentence the buddy says twice lights up the second time round.
+const findCurrentWord = (words: Word[], text: string, progress: SpeechProgress) => {
+  let from = 0;
+  for (const sentence of progress.said) {
+    const start = text.indexOf(sentence, from);
+    if (start !== -1) from = start + sentence.length;
+  }
+  const sentenceStart = text.indexOf(progress.sentence, from);
+  if (sentenceStart === -1) return -1;
+  const at = sentenceStart + progress.charIndex;
+  let current = -1;
+  words.forEach((word, i) => {
+    if (word.start <= at) current = i;
+  });
+  return current;
+};
+
+// The buddy's reply as karaoke-style captions: each word lights up as it's spoken, and tapping one says it again slowly
+function ReadAlong({ text, progress, canTap, onWordTap }: ReadAlongProps) {
+  const [tapped, setTapped] = useState<number | null>(null);
+  const words = toWords(text);
+
+  // A tapped word being said again is highlighted where it was tapped, not wherever its text first appears
+  let current = -1;
+  if (progress && tapped !== null && words[tapped]?.spoken === progress.sentence) current = tapped;
+  else if (progress) current = findCurrentWord(words, text, progress);
+
+  const tap = (index: number) => {
+    const word = words[index];
+    if (!canTap || !word.spoken) return;
+    setTapped(index);
+    onWordTap(word.spoken);
+  };
+
+  return (
+    <p className="ai-text read-along">
+      {words.map((word, i) => (
+        <span key={`${i}-${word.text}`}>
+          {i > 0 && ' '}
+          <button
+            type="button"
+            className={`caption-word${i === current ? ' is-current' : ''}${current !== -1 && i < current ? ' is-said' : ''}`}
+            disabled={!canTap}
+            onClick={() => tap(i)}
+          >
+            {word.text}
+          </button>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export default ReadAlong;
@@ -0,0 +1,39 @@
+import type { CSSProperties } from 'react';
+import type { Mood, Weather } from '../lib/scene';
+
+interface SceneEffectsProps {
+  weather: Weather;
+  mood: Mood;
+}
+
+const PARTICLE_COUNT: Record<Weather, number> = { none: 0, rain: 40, snow: 30, stars: 25, bubbles: 15 };
+// Seconds for one particle to cross the scene (or twinkle), before the mood's speed
+const BASE_SECONDS: Record<Weather, number> = { none: 0, rain: 0.9, snow: 8, stars: 3, bubbles: 7 };
+const MOOD_SPEED: Record<Mood, number> = { calm: 1.2, happy: 1, excited: 0.7, sleepy: 1.8, mysterious: 1.4 };
+
+// Spread out without Math.random, so a re-render doesn't move every particle
+const spread = (i: number, seed: number) => ((i + 1) * seed) % 1;
+
+// Weather drifting across the backdrop. The CSS keeps it behind everything and stops the
+// movement for anyone who asked their device for reduced motion.
+function SceneEffects({ weather, mood }: SceneEffectsProps) {
+  if (weather === 'none') return null;
+  const seconds = BASE_SECONDS[weather] * MOOD_SPEED[mood];
+
+  return (
+    <div className={`scene-effects weather-${weather}`} aria-hidden="true">
+      {Array.from({ length: PARTICLE_COUNT[weather] }, (_, i) => {
+        const style: CSSProperties = {
+          left: `${spread(i, 0.618) * 100}%`,
+          top: `${spread(i, 0.7549) * 100}%`,
+          animationDuration: `${seconds * (0.75 + spread(i, 0.5698) / 2)}s`,
+          animationDelay: `${-spread(i, 0.4142) * seconds}s`,
+          fontSize: `${0.8 + spread(i, 0.2361) * 0.8}rem`,
+        };
+        return <span key={i} className="scene-particle" style={style} />;
+      })}
+    </div>
+  );
+}
+
+export default SceneEffects;
@@ -0,0 +1,300 @@
+import { useState, type ChangeEvent } from 'react';
+import { BookOpen, Smile, Users, X } from 'lucide-react';
+import type { ProviderSettings } from '../lib/provider';
+import type { DemoScript } from '../lib/demoScript';
+import { LANGUAGES, type Language, type Messages } from '../lib/i18n';
+import type { SessionConfig } from '../lib/session';
+import type { SafetySettings, SafetyTopic } from '../lib/safety';
+import type { SpeechEngineMode, SpeechSettings } from '../lib/speech';
+import { hashPin, isValidPin, type ParentSettings } from '../lib/parental';
+import type { ChildProfile } from '../lib/profile';
+import { LESSON_EMOJI, LESSON_GOALS, type LessonGoal } from '../lib/lessons';
+import ProviderSetup from './ProviderSetup';
+
+interface SettingsPanelProps {
+  messages: Messages;
+  // The provider in use, or null while it still needs setting up
+  providerLabel: string | null;
+  isProxy: boolean;
+  providerSettings: ProviderSettings;
+  demoScript: DemoScript | null;
+  onProviderChange: (patch: Partial<ProviderSettings>) => void;
+  onProviderSave: () => void;
+  onProviderReset: () => void;
+  onDemoScriptUpload: (e: ChangeEvent<HTMLInputElement>) => void;
+  onClearDemoScript: () => void;
+  language: Language;
+  onLanguageChange: (language: string) => void;
+  personaLabel: string;
+  profiles: ChildProfile[];
+  profileId: string; // Empty for "Just playing"
+  onSelectProfile: (id: string) => void;
+  lessonGoal: LessonGoal | null;
+  onSelectLesson: (value: string) => void;
+  onOpenPersonas: () => void;
+  onOpenProfiles: () => void;
+  onOpenHistory: () => void;
+  sessionConfig: SessionConfig;
+  onSessionConfigChange: (config: SessionConfig) => void;
+  safetySettings: SafetySettings;
+  onSafetyChange: (settings: SafetySettings) => void;
+  speechSettings: SpeechSettings;
+  onSpeechChange: (settings: SpeechSettings) => void;
+  parentSettings: ParentSettings;
+  onParentSettingsChange: (settings: ParentSettings) => void;
+  playedToday: string;
+  isUnlockedToday: boolean;
+  onUnlockToday: () => void;
+  onClose: () => void;
+}
+
+const SAFETY_TOPICS: SafetyTopic[] = ['violence', 'adult', 'self-harm', 'unkind'];
+const ENGINE_MODES: SpeechEngineMode[] = ['auto', 'browser', 'server'];
+const MAX_CHAT_MINUTES = 30;
+const MAX_CHAT_TURNS = 30;
+
+// A whole number in range, or null for anything else (including an empty box)
+const readWholeNumber = (value: string, min: number, max: number) => {
+  const number = Number(value);
+  return value.trim() && Number.isInteger(number) && number >= min && number <= max ? number : null;
+};
+
+// Everything the grown-ups can change, behind the parent gate. Changes apply (and are saved) right away.
+function SettingsPanel(props: SettingsPanelProps) {
+  const { messages, sessionConfig, safetySettings, speechSettings, parentSettings } = props;
+  // Typed as one comma-separated line, so keep the raw text until the box loses focus
+  const [blockedWordsText, setBlockedWordsText] = useState(safetySettings.blockedWords.join(', '));
+  const [newPin, setNewPin] = useState('');
+  const [pinProblem, setPinProblem] = useState('');
+
+  const updateSession = (patch: Partial<SessionConfig>) => props.onSessionConfigChange({ ...sessionConfig, ...patch });
+  const updateSafety = (patch: Partial<SafetySettings>) => props.onSafetyChange({ ...safetySettings, ...patch });
+  const updateSpeech = (patch: Partial<SpeechSettings>) => props.onSpeechChange({ ...speechSettings, ...patch });
+  const updateParent = (patch: Partial<ParentSettings>) => props.onParentSettingsChange({ ...parentSettings, ...patch });
+
+  const toggleTopic = (topic: SafetyTopic, isBlocked: boolean) => {
+    const others = safetySettings.blockedTopics.filter(t => t !== topic);
+    updateSafety({ blockedTopics: isBlocked ? [...others, topic] : others });
+  };
+
+  const handleSetPin = async () => {
+    if (!isValidPin(newPin)) {
+      setPinProblem(messages.invalidPin);
+      return;
+    }
+    let pinHash: string;
+    try {
+      pinHash = await hashPin(newPin);
+    } catch (e) {
+      console.warn("Couldn't hash the PIN", e);
+      setPinProblem(messages.pinUnavailable);
+      return;
+    }
+    updateParent({ pinHash });
+    setNewPin('');
+    setPinProblem('');
+  };
+
+  return (
+    <div className="parent-panel-backdrop">
+      <div className="parent-panel">
+        <div className="parent-panel-header">
+          <span />
+          <h2>{messages.parentSettings}</h2>
+          <button onClick={props.onClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="persona-form settings-form">
+          {!props.isProxy && (
+            <section className="settings-section">
+              <h3>{messages.settingsProvider}</h3>
+              {props.providerLabel === null ? (
+                <ProviderSetup
+                  messages={messages}
+                  settings={props.providerSettings}
+                  demoScript={props.demoScript}
+                  onChange={props.onProviderChange}
+                  onSave={props.onProviderSave}
+                  onDemoScriptUpload={props.onDemoScriptUpload}
+                  onClearDemoScript={props.onClearDemoScript}
+                />
+              ) : (
+                <button onClick={props.onProviderReset} className="upload-btn">{messages.changeProvider(props.providerLabel)}</button>
+              )}
+            </section>
+          )}
+
+          <section className="settings-section">
+            <h3>{messages.settingsBuddy}</h3>
+            <label>
+              {messages.language}
+              <select value={props.language} onChange={(e) => props.onLanguageChange(e.target.value)}>
+                {Object.values(LANGUAGES).map(info => (
+                  <option key={info.code} value={info.code}>{info.nativeName}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {messages.whosPlaying}
+              <select value={props.profileId} onChange={(e) => props.onSelectProfile(e.target.value)}>
+                <option value="">{messages.justPlaying}</option>
+                {props.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </label>
+            <div className="session-actions">
+              <button onClick={props.onOpenPersonas} className="upload-btn"><Smile size={18} /> {props.personaLabel}</button>
+              <button onClick={props.onOpenProfiles} className="upload-btn"><Users size={18} /> {messages.manageProfiles}</button>
+              <button onClick={props.onOpenHistory} className="upload-btn"><BookOpen size={18} /> {messages.pastChats}</button>
+            </div>
+          </section>
+
+          <section className="settings-section">
+            <h3>{messages.settingsChat}</h3>
+            <label>
+              {messages.whatToPractise}
+              <select value={props.lessonGoal ?? ''} onChange={(e) => props.onSelectLesson(e.target.value)}>
+                <option value="">{messages.noLesson}</option>
+                {LESSON_GOALS.map(goal => <option key={goal} value={goal}>{LESSON_EMOJI[goal]} {messages.lessonGoals[goal]}</option>)}
+              </select>
+            </label>
+            <label>
+              {messages.chatMinutes}
+              <input
+                type="number"
+                min={1}
+                max={MAX_CHAT_MINUTES}
+                defaultValue={Math.round(sessionConfig.durationMs / 60000)}
+                onChange={(e) => {
+                  const minutes = readWholeNumber(e.target.value, 1, MAX_CHAT_MINUTES);
+                  if (minutes !== null) updateSession({ durationMs: minutes * 60000 });
+                }}
+              />
+            </label>
+            <label>
+              {messages.chatTurns}
+              <input
+                type="number"
+                min={1}
+                max={MAX_CHAT_TURNS}
+                defaultValue={sessionConfig.maxTurns}
+                onChange={(e) => {
+                  const turns = readWholeNumber(e.target.value, 1, MAX_CHAT_TURNS);
+                  if (turns !== null) updateSession({ maxTurns: turns });
+                }}
+              />
+            </label>
+          </section>
+
+          <section className="settings-section">
+            <h3>{messages.settingsAllowance}</h3>
+            <label>
+              {messages.dailyLimit}
+              <input
+                type="number"
+                min={1}
+                defaultValue={parentSettings.dailyLimitMinutes ?? ''}
+                onChange={(e) => {
+                  const minutes = readWholeNumber(e.target.value, 1, 24 * 60);
+                  if (minutes !== null || !e.target.value.trim()) updateParent({ dailyLimitMinutes: minutes });
+                }}
+              />
+            </label>
+            <p className="transcript-meta">{props.playedToday}</p>
+            {parentSettings.dailyLimitMinutes !== null && (
+              props.isUnlockedToday
+                ? <p className="transcript-meta">{messages.unlockedToday}</p>
+                : <div className="session-actions"><button onClick={props.onUnlockToday} className="upload-btn">{messages.unlockToday}</button></div>
+            )}
+          </section>
+
+          <section className="settings-section">
+            <h3>{messages.safety}</h3>
+            <span className="settings-label">{messages.blockedTopics}</span>
+            {SAFETY_TOPICS.map(topic => (
+              <label key={topic} className="checkbox-row">
+                <input
+                  type="checkbox"
+                  checked={safetySettings.blockedTopics.includes(topic)}
+                  onChange={(e) => toggleTopic(topic, e.target.checked)}
+                />
+                {messages.safetyTopics[topic]}
+              </label>
+            ))}
+            <label>
+              {messages.extraBlockedWords}
+              <input
+                type="text"
+                value={blockedWordsText}
+                onChange={(e) => setBlockedWordsText(e.target.value)}
+                onBlur={() => updateSafety({ blockedWords: blockedWordsText.split(',').map(w => w.trim()).filter(Boolean) })}
+              />
+            </label>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={safetySettings.redactPersonalInfo} onChange={(e) => updateSafety({ redactPersonalInfo: e.target.checked })} />
+              {messages.redactPersonalInfo}
+            </label>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={safetySettings.useModeration} onChange={(e) => updateSafety({ useModeration: e.target.checked })} />
+              {messages.useModeration}
+            </label>
+          </section>
+
+          <section className="settings-section">
+            <h3>{messages.settingsSpeech}</h3>
+            <label>
+              {messages.listeningEngine}
+              <select value={speechSettings.recognition} onChange={(e) => updateSpeech({ recognition: e.target.value as SpeechEngineMode })}>
+                {ENGINE_MODES.map(mode => <option key={mode} value={mode}>{messages.engineModes[mode]}</option>)}
+              </select>
+            </label>
+            <label>
+              {messages.talkingEngine}
+              <select value={speechSettings.synthesis} onChange={(e) => updateSpeech({ synthesis: e.target.value as SpeechEngineMode })}>
+                {ENGINE_MODES.map(mode => <option key={mode} value={mode}>{messages.engineModes[mode]}</option>)}
+              </select>
+            </label>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={speechSettings.bargeIn} onChange={(e) => updateSpeech({ bargeIn: e.target.checked })} />
+              {messages.bargeIn}
+            </label>
+          </section>
+
+          <section className="settings-section">
+            <h3>{messages.settingsPictures}</h3>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={parentSettings.childCanPickPictures} onChange={(e) => updateParent({ childCanPickPictures: e.target.checked })} />
+              {messages.childCanPickPictures}
+            </label>
+          </section>
+
+          <section className="settings-section">
+            <h3>{messages.settingsPin}</h3>
+            <p className="transcript-meta">{parentSettings.pinHash ? messages.pinInUse : messages.pinNotSet}</p>
+            <label>
+              {messages.newPin}
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={newPin}
+                onChange={(e) => {
+                  setNewPin(e.target.value);
+                  setPinProblem('');
+                }}
+              />
+            </label>
+            {pinProblem && <p className="parent-gate-wrong">{pinProblem}</p>}
+            <div className="session-actions">
+              <button onClick={handleSetPin} className="upload-btn" disabled={!newPin}>{messages.setPin}</button>
+              {parentSettings.pinHash && <button onClick={() => updateParent({ pinHash: null })} className="upload-btn">{messages.removePin}</button>}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPanel;
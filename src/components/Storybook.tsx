@@ -0,0 +1,87 @@
+import { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Square, Volume2, X } from 'lucide-react';
+import type { Messages } from '../lib/i18n';
+import { DEFAULT_SCENE, toSceneBackground } from '../lib/scene';
+import type { Storybook as StorybookData } from '../lib/storybook';
+
+interface StorybookProps {
+  messages: Messages;
+  book: StorybookData;
+  onSpeak: (text: string, onDone: () => void) => void;
+  onStopSpeaking: () => void;
+  onClose: () => void;
+}
+
+// The story after a chat, one page at a time on the scene it happened in. "Read to me" reads
+// from the page that's open to the end, turning the pages as it goes.
+function Storybook({ messages, book, onSpeak, onStopSpeaking, onClose }: StorybookProps) {
+  const [pageIndex, setPageIndex] = useState(0);
+  const [isReading, setIsReading] = useState(false);
+  // Bumped on every start and stop, so a page that finishes after a stop doesn't turn to the next one
+  const readingRef = useRef(0);
+
+  const page = book.pages[pageIndex];
+  const background = toSceneBackground({ ...DEFAULT_SCENE, colors: page.colors.length > 0 ? page.colors : DEFAULT_SCENE.colors });
+
+  const readFrom = (index: number, run: number) => {
+    setPageIndex(index);
+    onSpeak(book.pages[index].text, () => {
+      if (run !== readingRef.current) return;
+      if (index + 1 < book.pages.length) readFrom(index + 1, run);
+      else setIsReading(false);
+    });
+  };
+
+  const handleRead = () => {
+    setIsReading(true);
+    readFrom(pageIndex, ++readingRef.current);
+  };
+
+  const handleStop = () => {
+    readingRef.current++;
+    onStopSpeaking();
+    setIsReading(false);
+  };
+
+  const turnTo = (index: number) => {
+    if (isReading) handleStop();
+    setPageIndex(index);
+  };
+
+  const handleClose = () => {
+    handleStop();
+    onClose();
+  };
+
+  return (
+    <div className="parent-panel-backdrop">
+      <div className="storybook" style={{ backgroundColor: background.color, backgroundImage: background.gradient }}>
+        <div className="parent-panel-header">
+          <span />
+          <h2>{book.title}</h2>
+          <button onClick={handleClose} className="icon-btn" aria-label={messages.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <img key={page.picture} src={book.pictures[page.picture]} alt={messages.storyPictureAlt} className="storybook-picture" />
+        <p className="storybook-text">{page.text}</p>
+
+        <div className="storybook-controls">
+          <button onClick={() => turnTo(pageIndex - 1)} className="icon-btn" disabled={pageIndex === 0} aria-label={messages.previousPage}>
+            <ChevronLeft size={28} />
+          </button>
+          <span className="storybook-page-number">{messages.pageOf(pageIndex + 1, book.pages.length)}</span>
+          <button onClick={() => turnTo(pageIndex + 1)} className="icon-btn" disabled={pageIndex === book.pages.length - 1} aria-label={messages.nextPage}>
+            <ChevronRight size={28} />
+          </button>
+        </div>
+        <button onClick={isReading ? handleStop : handleRead} className="retry-btn storybook-read">
+          {isReading ? <><Square size={18} /> {messages.stopReading}</> : <><Volume2 size={18} /> {messages.readToMe}</>}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default Storybook;
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+import { watchForVoice } from '../utils/audio';
+
+// Listens for the child while `isActive` (the buddy is talking) and calls onBargeIn once they start.
+// The microphone is only open for as long as it's active.
+export const useBargeIn = (isActive: boolean, onBargeIn: () => void) => {
+    // The latest handler, without restarting the microphone every render
+    const onBargeInRef = useRef(onBargeIn);
+    useEffect(() => {
+        onBargeInRef.current = onBargeIn;
+    });
+
+    useEffect(() => {
+        if (!isActive) return;
+        return watchForVoice(() => onBargeInRef.current());
+    }, [isActive]);
+};
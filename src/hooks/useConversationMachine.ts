@@ -0,0 +1,31 @@
+import { useState, useRef, useCallback } from 'react';
+import { conversationReducer, createConversationMachine, formatMachineLog, wasAccepted, type AppState, type ConversationEvent } from '../lib/conversationMachine';
+
+// Runs the conversation state machine for the App. The machine lives in a ref so handlers can check
+// the state right away (two answers in the same tick must not both get through); React only gets
+// the state for rendering.
+export const useConversationMachine = () => {
+    const machineRef = useRef(createConversationMachine());
+    const [appState, setAppState] = useState<AppState>('IDLE');
+
+    // Returns false when the event doesn't fit the current state; the caller should then drop whatever it was about to do
+    const send = useCallback((event: ConversationEvent) => {
+        const from = machineRef.current.state;
+        const next = conversationReducer(machineRef.current, event);
+        machineRef.current = next;
+        if (!wasAccepted(next)) {
+            console.warn(`Ignoring ${event.type} while ${from}`);
+            return false;
+        }
+        if (import.meta.env.DEV) console.debug(`${event.type}: ${from} -> ${next.state}`);
+        setAppState(next.state);
+        return true;
+    }, []);
+
+    const getState = useCallback(() => machineRef.current.state, []);
+
+    // The recent events, one per line, for bug reports
+    const getEventLog = useCallback(() => formatMachineLog(machineRef.current.log), []);
+
+    return { appState, send, getState, getEventLog };
+};
@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getRemainingMs, getUsedTodayMs, recordPlaytime, unlockForToday, type DailyUsage, type ParentSettings } from '../lib/parental';
+import { loadDailyUsage, saveDailyUsage } from '../lib/settings';
+
+const UNLOCK_CHECK_MS = 60 * 1000;
+const SAVE_EVERY_MS = 15 * 1000;
+
+// Adds up playtime across chats against the parent's daily limit. A chat's time is saved every few
+// seconds and when the page is hidden or closed, so a reload doesn't lose it; storage is re-read
+// first, so another tab's chats count too.
+export const useDailyAllowance = (settings: ParentSettings) => {
+    const [usage, setUsage] = useState(loadDailyUsage);
+    const [now, setNow] = useState(() => Date.now());
+    const playStartedAtRef = useRef<number | null>(null);
+
+    const update = useCallback((change: (current: DailyUsage, at: number) => DailyUsage) => {
+        const at = Date.now();
+        const next = change(loadDailyUsage(), at);
+        saveDailyUsage(next);
+        setUsage(next);
+        setNow(at);
+    }, []);
+
+    const startPlaytime = useCallback(() => {
+        playStartedAtRef.current = Date.now();
+    }, []);
+
+    // Saves the time played since the last save; the chat keeps counting unless it's stopping
+    const savePlaytime = useCallback((isStopping: boolean) => {
+        const startedAt = playStartedAtRef.current;
+        if (startedAt === null) return;
+        update((current, at) => {
+            playStartedAtRef.current = isStopping ? null : at;
+            return recordPlaytime(current, at - startedAt, at);
+        });
+    }, [update]);
+
+    const stopPlaytime = useCallback(() => savePlaytime(true), [savePlaytime]);
+
+    useEffect(() => {
+        const save = () => savePlaytime(false);
+        const saveIfHidden = () => {
+            if (document.visibilityState === 'hidden') save();
+        };
+        const timer = setInterval(save, SAVE_EVERY_MS);
+        window.addEventListener('pagehide', save);
+        document.addEventListener('visibilitychange', saveIfHidden);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('pagehide', save);
+            document.removeEventListener('visibilitychange', saveIfHidden);
+            savePlaytime(true);
+        };
+    }, [savePlaytime]);
+
+    const unlockToday = useCallback(() => update(unlockForToday), [update]);
+
+    // What's left right now, for a chat about to start
+    const getRemainingNow = useCallback(() => getRemainingMs(settings, loadDailyUsage(), Date.now()), [settings]);
+
+    const remainingMs = getRemainingMs(settings, usage, now);
+    const isLocked = remainingMs === 0;
+
+    // Once locked, look at the clock now and then so the next day unlocks by itself
+    useEffect(() => {
+        if (!isLocked) return;
+        const timer = setInterval(() => setNow(Date.now()), UNLOCK_CHECK_MS);
+        return () => clearInterval(timer);
+    }, [isLocked]);
+
+    return {
+        usedTodayMs: getUsedTodayMs(usage, now),
+        remainingMs,
+        isLocked,
+        getRemainingNow,
+        startPlaytime,
+        stopPlaytime,
+        unlockToday,
+    };
+};
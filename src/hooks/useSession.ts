@@ -0,0 +1,89 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { createSession, getTimedWrapUp, getWrapUpReason, type Session, type SessionConfig, type SessionEndReason } from '../lib/session';
+
+// Tracks the running conversation against the session limits.
+// The App still owns the AppState machine; this only answers "keep going or wind down?", and
+// calls onTimeUp once the clock says to wind down, even if nobody has said anything since.
+export const useSession = (config: SessionConfig, onTimeUp: (reason: 'time' | 'allowance') => void) => {
+    const sessionRef = useRef<Session | null>(null);
+    const [summary, setSummary] = useState<Session | null>(null);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // The latest handler, so the timer doesn't call one from the render the chat started in
+    const onTimeUpRef = useRef(onTimeUp);
+    useEffect(() => {
+        onTimeUpRef.current = onTimeUp;
+    });
+
+    const clearTimer = useCallback(() => {
+        if (timerRef.current !== null) clearTimeout(timerRef.current);
+        timerRef.current = null;
+    }, []);
+
+    useEffect(() => clearTimer, [clearTimer]);
+
+    // allowanceMs is what's left of today's playtime, if there's a daily limit
+    const startSession = useCallback((allowanceMs: number | null = null) => {
+        clearTimer();
+        const session = createSession(allowanceMs);
+        sessionRef.current = session;
+        setSummary(null);
+
+        const { reason, afterMs } = getTimedWrapUp(session, config);
+        timerRef.current = setTimeout(() => {
+            timerRef.current = null;
+            if (sessionRef.current === session && !session.isWrappingUp) onTimeUpRef.current(reason);
+        }, Math.max(0, afterMs));
+    }, [config, clearTimer]);
+
+    // Ask for the goodbye; the session ends once the buddy has finished saying it
+    const requestEnd = useCallback((reason: SessionEndReason) => {
+        const session = sessionRef.current;
+        if (!session || session.isWrappingUp) return;
+        session.isWrappingUp = true;
+        session.endReason = reason;
+    }, []);
+
+    // Called when the child says something. Returns true if the reply to it should be the goodbye.
+    const recordTurn = useCallback((): boolean => {
+        const session = sessionRef.current;
+        if (!session) return false;
+
+        session.turns += 1;
+        session.silencePrompts = 0;
+        if (session.isWrappingUp) return true;
+
+        const reason = getWrapUpReason(session, config);
+        if (reason) requestEnd(reason);
+        return reason !== null;
+    }, [config, requestEnd]);
+
+    // Called when listening ended with nothing heard. Returns which nudge this is (1, 2, ...), or null
+    // when the child has been quiet for too long (or time is up) and we should say goodbye instead.
+    const recordSilence = useCallback((): number | null => {
+        const session = sessionRef.current;
+        if (!session) return null;
+
+        session.silencePrompts += 1;
+        const reason = getWrapUpReason(session, config);
+        if (session.silencePrompts > config.maxSilencePrompts || reason === 'time' || reason === 'allowance') {
+            requestEnd('silence');
+            return null;
+        }
+        return session.silencePrompts;
+    }, [config, requestEnd]);
+
+    const isEnding = useCallback(() => !!sessionRef.current?.isWrappingUp, []);
+
+    const endSession = useCallback((): Session | null => {
+        clearTimer();
+        const session = sessionRef.current;
+        if (!session) return null;
+        sessionRef.current = null;
+        const ended = { ...session, endedAt: Date.now() };
+        setSummary(ended);
+        return ended;
+    }, [clearTimer]);
+
+    return { summary, startSession, recordTurn, recordSilence, requestEnd, isEnding, endSession };
+};
@@ -0,0 +1,85 @@
+import { useRef, useCallback } from 'react';
+import { saveSession, type LoggedTurn, type StoredSession } from '../lib/sessionStore';
+import type { SafetyIntervention } from '../lib/safety';
+import type { TokenUsage } from '../lib/provider';
+import type { LessonGoal } from '../lib/lessons';
+import { addUsage, EMPTY_USAGE } from '../lib/cost';
+import { createThumbnail } from '../utils/image';
+
+// Records the running conversation and saves it after every turn,
+// so a reload mid-chat still leaves something for parents to review.
+export const useSessionLog = () => {
+    const logRef = useRef<StoredSession | null>(null);
+
+    const persist = useCallback((log: StoredSession) => {
+        const lesson = log.lesson && { ...log.lesson, stars: [...log.lesson.stars] };
+        saveSession({ ...log, turns: [...log.turns], interventions: [...(log.interventions ?? [])], lesson })
+            .catch(e => console.error("Failed to save session", e));
+    }, []);
+
+    const startLog = useCallback((imageSrc: string, providerLabel: string, isDemoMode: boolean, profileId: string | null, lessonGoal: LessonGoal | null) => {
+        const log: StoredSession = {
+            id: crypto.randomUUID(),
+            startedAt: Date.now(),
+            thumbnail: '',
+            isDemoMode,
+            providerLabel,
+            turns: [],
+            interventions: [],
+            usage: EMPTY_USAGE,
+        };
+        if (profileId) log.profileId = profileId;
+        if (lessonGoal) log.lesson = { goal: lessonGoal, stars: [] };
+        logRef.current = log;
+        persist(log);
+
+        createThumbnail(imageSrc)
+            .then(thumbnail => {
+                log.thumbnail = thumbnail;
+                persist(log);
+            })
+            .catch(e => console.warn("Could not make thumbnail", e));
+    }, [persist]);
+
+    const logTurn = useCallback((turn: Omit<LoggedTurn, 'at'>) => {
+        if (!logRef.current) return;
+        logRef.current.turns.push({ ...turn, at: Date.now() });
+        if (turn.usage) logRef.current.usage = addUsage(logRef.current.usage ?? EMPTY_USAGE, turn.usage);
+        persist(logRef.current);
+    }, [persist]);
+
+    // Tokens spent outside a reply (describing the picture, summaries)
+    const logUsage = useCallback((usage: TokenUsage) => {
+        if (!logRef.current) return;
+        logRef.current.usage = addUsage(logRef.current.usage ?? EMPTY_USAGE, usage);
+        persist(logRef.current);
+    }, [persist]);
+
+    const getSessionUsage = useCallback(() => logRef.current?.usage ?? EMPTY_USAGE, []);
+
+    const logIntervention = useCallback((intervention: SafetyIntervention) => {
+        if (!logRef.current) return;
+        (logRef.current.interventions ??= []).push({ ...intervention, at: Date.now() });
+        persist(logRef.current);
+    }, [persist]);
+
+    const logStar = useCallback((skill: string) => {
+        const log = logRef.current;
+        if (!log?.lesson) return;
+        log.lesson.stars.push({ skill, at: Date.now() });
+        persist(log);
+    }, [persist]);
+
+    // Returns the finished log so the caller can do more with it (like pick out memories)
+    const finishLog = useCallback((endReason?: string): StoredSession | null => {
+        const log = logRef.current;
+        if (!log) return null;
+        log.endedAt = Date.now();
+        log.endReason = endReason;
+        persist(log);
+        logRef.current = null;
+        return log;
+    }, [persist]);
+
+    return { startLog, logTurn, logIntervention, logStar, logUsage, getSessionUsage, finishLog };
+};
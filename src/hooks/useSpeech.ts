@@ -1,151 +1,185 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { SpeechEngineMode, SpeechService } from '../lib/speech';
+import { canRecognize, createRecognizer, type RecognizerHandlers, type SpeechRecognizer } from '../lib/speechToText';
+import { createSynthesizer, type VoiceSettings } from '../lib/textToSpeech';
+
+// Which engines to use; see lib/speech.ts
+export interface SpeechEngineOptions {
+    recognition: SpeechEngineMode;
+    synthesis: SpeechEngineMode;
+    service: SpeechService | null;
+}
 
-// Type definition for Web Speech API (Safari/Chrome prefix)
-interface IWindow extends Window {
-    webkitSpeechRecognition: any;
-    SpeechRecognition: any;
+// The sentence being said and where the voice is in it, for read-along captions
+export interface SpeechProgress {
+    sentence: string;
+    charIndex: number;
+    said: string[]; // The sentences before it in the same queue, to tell a repeated sentence apart
 }
 
-export const useSpeech = () => {
+export const useSpeech = (voice: VoiceSettings, engines: SpeechEngineOptions) => {
     const [isListening, setIsListening] = useState(false);
     const [isSpeaking, setIsSpeaking] = useState(false);
+    const [speechProgress, setSpeechProgress] = useState<SpeechProgress | null>(null);
     const [transcript, setTranscript] = useState('');
-    const recognitionRef = useRef<any>(null);
-
-    const [isSupported, setIsSupported] = useState(!!((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition));
+    // An interim transcript is only a guess; one left over when listening ends wasn't finished
+    const [isTranscriptFinal, setIsTranscriptFinal] = useState(false);
+    const recognizerRef = useRef<SpeechRecognizer | null>(null);
+    const { recognition: recognitionMode, synthesis: synthesisMode, service } = engines;
 
+    const isSupported = useMemo(() => canRecognize(service), [service]);
+    const synthesizer = useMemo(() => createSynthesizer(synthesisMode, service), [synthesisMode, service]);
 
-    // We need to track if we *intend* to be listening, separate from if the browser *is* listening
+    // We need to track if we *intend* to be listening, separate from if the engine *is* listening
     const shouldListenRef = useRef(false);
+    // Applies from the next start(), which is fine since the language can't change mid-conversation
+    const localeRef = useRef(voice.locale);
+    useEffect(() => {
+        localeRef.current = voice.locale;
+    }, [voice.locale]);
 
     useEffect(() => {
-        // Initialize Speech Recognition
-        const { webkitSpeechRecognition, SpeechRecognition } = window as unknown as IWindow;
-        const SpeechRecognitionConstructor = SpeechRecognition || webkitSpeechRecognition;
-
-        if (SpeechRecognitionConstructor) {
-            setIsSupported(true);
-            const recognition = new SpeechRecognitionConstructor();
-            recognition.continuous = false; // Keep false for better compatibility, we will manually restart
-            recognition.lang = 'en-US';
-            recognition.interimResults = true;
-            recognition.maxAlternatives = 1;
-
-            recognition.onstart = () => {
-                console.log("Speech recognition started");
+        const handlers: RecognizerHandlers = {
+            onStart: () => {
+                // Whatever an earlier attempt half-heard isn't part of this one
+                setTranscript('');
+                setIsTranscriptFinal(false);
                 setIsListening(true);
-            };
-
-            recognition.onresult = (event: any) => {
-                console.log("Speech Result:", event.results);
-                const last = event.results.length - 1;
-                const text = event.results[last][0].transcript;
-
-                // If it's final, or if we just want to show progress
+            },
+            onTranscript: (text, isFinal) => {
                 setTranscript(text);
-            };
-
-            recognition.nomatch = () => {
-                console.log("No speech matched");
-            }
-
-            recognition.onend = () => {
-                console.log("Speech recognition ended. Should restart?", shouldListenRef.current);
+                setIsTranscriptFinal(isFinal);
+            },
+            onEnd: () => {
                 setIsListening(false);
-
-                // Auto-restart if we still want to listen and haven't gotten a final result (handled by app)
-                // Actually, the App stops listening when it gets a result.
-                // But if it just times out silence, we might want to restart?
-                // Let's rely on the App to call stopListening() when it's done.
-                // If the engine stops on its own (silence), we check if we should still be listening.
-                if (shouldListenRef.current) {
-                    try {
-                        recognition.start();
-                    } catch (e) {
-                        console.log("Restart failed", e);
-                    }
+                // The engines stop on their own after a pause; the App stops listening once it has what it needs
+                if (shouldListenRef.current) recognizerRef.current?.start(localeRef.current);
+            },
+            onError: (problem) => {
+                setIsListening(false);
+                if (problem === 'microphone-denied') shouldListenRef.current = false;
+                // This engine can't work here (e.g. offline Chrome): swap in the other one, which onEnd then starts
+                if (problem === 'engine-failed') {
+                    const failed = recognizerRef.current;
+                    const fallback = createRecognizer(recognitionMode, service, handlers, failed?.kind);
+                    console.warn(`Speech recognition (${failed?.kind}) failed${fallback ? `, switching to ${fallback.kind}` : ''}`);
+                    recognizerRef.current = fallback;
+                    if (!fallback) shouldListenRef.current = false;
                 }
-            };
+            },
+        };
 
-            recognition.onerror = (event: any) => {
-                console.error("Speech recognition error", event.error);
-                if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
-                    shouldListenRef.current = false;
+        const recognizer = createRecognizer(recognitionMode, service, handlers);
+        recognizerRef.current = recognizer;
+        return () => {
+            if (recognizerRef.current === recognizer) recognizerRef.current = null;
+            recognizer?.stop();
+        };
+    }, [recognitionMode, service]);
+
+    // Sentences waiting to be spoken. Streamed replies push into this while the first ones are already playing.
+    // Each queue keeps the voice it was started with, so previews can use a different one.
+    // `started` is what has been (or is being) said, for when the child cuts the buddy off.
+    const speechQueueRef = useRef<{ sentences: string[]; started: string[]; voice: VoiceSettings; isPlaying: boolean; isClosed: boolean; onDrained?: () => void }>({
+        sentences: [],
+        started: [],
+        voice,
+        isPlaying: false,
+        isClosed: true,
+    });
+
+    const playNextInQueue = useCallback(() => {
+        const playNext = () => {
+            const queue = speechQueueRef.current;
+            const next = queue.sentences.shift();
+
+            if (next === undefined) {
+                queue.isPlaying = false;
+                if (queue.isClosed) {
+                    setIsSpeaking(false);
+                    setSpeechProgress(null);
+                    const onDrained = queue.onDrained;
+                    queue.onDrained = undefined;
+                    if (onDrained) onDrained();
                 }
-                setIsListening(false);
-            };
-
-            recognitionRef.current = recognition;
-        } else {
-            setIsSupported(false);
-        }
-    }, []);
-
-    const speak = useCallback((text: string, onEnd?: () => void) => {
-        if (!text) return;
-
-        // Cancel any current speech
-        window.speechSynthesis.cancel();
-
-        const utterance = new SpeechSynthesisUtterance(text);
-        // Find a better voice if possible
-        const voices = window.speechSynthesis.getVoices();
-        // Try to find a female, english voice for friendliness
-        const friendlyVoice = voices.find(v => v.lang.includes('en') && (v.name.includes('Female') || v.name.includes('Google US English')));
-        if (friendlyVoice) utterance.voice = friendlyVoice;
-
-        utterance.pitch = 1.2; // Slightly higher pitch for child-friendly tone
-        utterance.rate = 1.0;
-
-        // Safety timeout in case onend never fires (common browser bug)
-        const contentDuration = Math.max(2000, text.split(' ').length * 500); // Est: 0.5s per word, min 2s
-        const safetyTimer = setTimeout(() => {
-            if (window.speechSynthesis.speaking) {
-                console.warn("Speech timed out, forcing next state");
-                window.speechSynthesis.cancel();
-                setIsSpeaking(false);
-                if (onEnd) onEnd();
+                return;
             }
-        }, contentDuration + 2000); // Give it 2s buffer
 
-        utterance.onstart = () => setIsSpeaking(true);
-        utterance.onend = () => {
-            clearTimeout(safetyTimer);
-            setIsSpeaking(false);
-            if (onEnd) onEnd();
-        };
-        utterance.onerror = (e) => {
-            clearTimeout(safetyTimer);
-            console.error("Speech synthesis error", e);
-            setIsSpeaking(false);
-            // Even on error, we should probably proceed or let the user try again?
-            // Let's proceed to allow flow to continue
-            if (onEnd) onEnd();
+            queue.isPlaying = true;
+            const said = [...queue.started];
+            queue.started.push(next);
+            setIsSpeaking(true);
+
+            // Each queue gets its own object, so a cancelled queue's late callbacks are ignored.
+            // A sentence no engine could say is skipped rather than holding up the conversation.
+            synthesizer.speak(next, queue.voice, () => {
+                if (speechQueueRef.current === queue) playNext();
+            }, charIndex => {
+                if (speechQueueRef.current === queue) setSpeechProgress({ sentence: next, charIndex, said });
+            });
         };
+        playNext();
+    }, [synthesizer]);
+
+    // Start a fresh queue, cutting off anything still being said
+    const beginSpeechQueue = useCallback((voiceOverride?: VoiceSettings) => {
+        synthesizer.cancel();
+        speechQueueRef.current = { sentences: [], started: [], voice: voiceOverride ?? voice, isPlaying: false, isClosed: false };
+        setIsSpeaking(false);
+        setSpeechProgress(null);
+    }, [voice, synthesizer]);
+
+    const queueSpeech = useCallback((text: string) => {
+        if (!text.trim()) return;
+        const queue = speechQueueRef.current;
+        queue.sentences.push(text);
+        if (!queue.isPlaying) playNextInQueue();
+    }, [playNextInQueue]);
+
+    // No more sentences are coming: onEnd fires once the last queued one has been spoken
+    const finishSpeechQueue = useCallback((onEnd?: () => void) => {
+        const queue = speechQueueRef.current;
+        queue.isClosed = true;
+        queue.onDrained = onEnd;
+        if (!queue.isPlaying) playNextInQueue();
+    }, [playNextInQueue]);
+
+    const cancelSpeech = useCallback(() => {
+        beginSpeechQueue();
+        speechQueueRef.current.isClosed = true;
+    }, [beginSpeechQueue]);
+
+    // Stops talking mid-sentence. Returns the sentences the child heard, the last one only partly.
+    const interruptSpeech = useCallback(() => {
+        const started = speechQueueRef.current.started;
+        cancelSpeech();
+        return started;
+    }, [cancelSpeech]);
+
+    const speak = useCallback((text: string, onEnd?: () => void, voiceOverride?: VoiceSettings) => {
+        if (!text) return;
 
-        window.speechSynthesis.speak(utterance);
-    }, []);
+        // Cancel any current speech
+        beginSpeechQueue(voiceOverride);
+        queueSpeech(text);
+        finishSpeechQueue(onEnd);
+    }, [beginSpeechQueue, queueSpeech, finishSpeechQueue]);
 
     const startListening = useCallback(() => {
         setTranscript('');
+        setIsTranscriptFinal(false);
         shouldListenRef.current = true;
-        if (recognitionRef.current) {
-            try {
-                // Check if already started? The API throws if you start twice
-                recognitionRef.current.start();
-            } catch (e) {
-                // If it's "invoked start on active...", just ignore
-                console.warn("Recognition start called but maybe active", e);
-            }
+        if (recognizerRef.current) {
+            recognizerRef.current.start(localeRef.current);
         } else {
-            console.error("No recognition instance found");
+            console.error("No speech recognizer available");
         }
     }, []);
 
     const stopListening = useCallback(() => {
         shouldListenRef.current = false;
-        if (recognitionRef.current) recognitionRef.current.stop();
+        recognizerRef.current?.stop();
     }, []);
 
-    return { isListening, isSpeaking, speak, startListening, stopListening, transcript, isSupported };
+    return { isListening, isSpeaking, speechProgress, speak, beginSpeechQueue, queueSpeech, finishSpeechQueue, cancelSpeech, interruptSpeech, startListening, stopListening, transcript, isTranscriptFinal, isSupported };
 };
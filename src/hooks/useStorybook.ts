@@ -0,0 +1,106 @@
+import { useState, useRef, useCallback } from 'react';
+import type { ChatMessage, ConversationProvider, PromptContext } from '../lib/provider';
+import { collectMoments, matchPages, toStoryTranscript, type StoryMoment, type Storybook } from '../lib/storybook';
+import { checkBuddyOutput, type SafetySettings } from '../lib/safety';
+import { getMessages } from '../lib/i18n';
+import type { Scene } from '../lib/scene';
+import { saveSession, type LoggedIntervention, type StoredSession } from '../lib/sessionStore';
+import { addUsage, EMPTY_USAGE } from '../lib/cost';
+import { createCrop, createThumbnail } from '../utils/image';
+
+const PICTURE_SIZE = 640; // Longest side of a page's picture: enough for a printed page, small enough to store
+
+export interface StoryRequest {
+    provider: ConversationProvider; // Must implement writeStory
+    context: PromptContext;
+    history: ChatMessage[];
+    startScene: Scene; // Behind the picture when the chat started
+    pictures: string[]; // The chat's pictures in the order they were shown
+    safety: SafetySettings;
+    session: StoredSession | null; // The saved chat the book is kept with, for the parents to print
+}
+
+export type StoryStatus = 'idle' | 'writing' | 'ready' | 'failed';
+
+const writeStorybook = async ({ provider, context, history, startScene, pictures, safety, session }: StoryRequest): Promise<Storybook> => {
+    const moments = collectMoments(history, startScene);
+    if (moments.length === 0 || !provider.writeStory) throw new Error("Nothing to make a story from");
+    const draft = await provider.writeStory(toStoryTranscript(moments), context);
+
+    // The story is checked like anything else the buddy says; a page that doesn't pass is left out
+    const interventions: LoggedIntervention[] = [];
+    const check = (text: string) => {
+        const verdict = checkBuddyOutput(text, safety);
+        interventions.push(...verdict.interventions.map(item => ({ ...item, at: Date.now() })));
+        return verdict.blocked ? null : verdict.text;
+    };
+    const pages = matchPages(draft, moments).flatMap(page => {
+        const text = check(page.text);
+        return text ? [{ text, moment: page.moment }] : [];
+    });
+    if (pages.length === 0) throw new Error("The story came back without any pages");
+    const title = (draft.title && check(draft.title)) || getMessages(context.language).storyTemplate.title(context.child?.name ?? null);
+
+    // Each picture, or circled part of one, is drawn once however many pages show it
+    const drawn = new Map<string, number>();
+    const images: string[] = [];
+    const drawPicture = async (moment: StoryMoment) => {
+        const src = pictures[moment.picture] ?? pictures[0];
+        const { highlight } = moment;
+        const key = highlight ? `${moment.picture}:${highlight.x},${highlight.y},${highlight.width},${highlight.height}` : `${moment.picture}`;
+        if (!drawn.has(key)) {
+            const image = highlight
+                ? await createCrop(src, highlight, PICTURE_SIZE).catch(() => createThumbnail(src, PICTURE_SIZE))
+                : await createThumbnail(src, PICTURE_SIZE);
+            drawn.set(key, images.push(image) - 1);
+        }
+        return drawn.get(key)!;
+    };
+
+    const book: Storybook = { title, pictures: images, pages: [], createdAt: Date.now() };
+    for (const page of pages) {
+        book.pages.push({ text: page.text, picture: await drawPicture(page.moment), colors: page.moment.scene.colors });
+    }
+
+    if (session) {
+        session.story = book;
+        if (draft.usage) session.usage = addUsage(session.usage ?? EMPTY_USAGE, draft.usage);
+        if (interventions.length > 0) session.interventions = [...(session.interventions ?? []), ...interventions];
+        await saveSession(session).catch(e => console.error("Failed to save the storybook", e));
+    }
+    return book;
+};
+
+// Writes a picture book from the chat that just ended and keeps it with the saved chat
+export const useStorybook = () => {
+    const [book, setBook] = useState<Storybook | null>(null);
+    const [status, setStatus] = useState<StoryStatus>('idle');
+    // Bumped by clearStory, so a book that arrives after the next chat started is dropped
+    const runRef = useRef(0);
+
+    // Resolves with the book, or null if it failed or was cleared meanwhile
+    const makeStory = useCallback(async (request: StoryRequest): Promise<Storybook | null> => {
+        const run = ++runRef.current;
+        setStatus('writing');
+        try {
+            const made = await writeStorybook(request);
+            if (run !== runRef.current) return null;
+            setBook(made);
+            setStatus('ready');
+            return made;
+        } catch (e) {
+            if (run !== runRef.current) return null;
+            console.warn("Couldn't make the storybook", e);
+            setStatus('failed');
+            return null;
+        }
+    }, []);
+
+    const clearStory = useCallback(() => {
+        runRef.current++;
+        setBook(null);
+        setStatus('idle');
+    }, []);
+
+    return { book, status, makeStory, clearStory };
+};
@@ -0,0 +1,147 @@
+import type { ChatMessage } from './provider';
+import { addPointingNote, readPointingNote } from './pointing';
+
+// Keeps what we send to the model small. The full history stays in the App (and the log);
+// each request gets a trimmed copy where:
+// - pictures are replaced by text descriptions once we have them (unless the model asked to look again).
+//   Earlier pictures are never sent again, only the one the child is showing now.
+// - a close-up of where the child pointed goes with that turn only
+// - older turns are squashed into a running summary once the history gets past the token budget
+
+export interface ContextState {
+    descriptions: Record<number, string>; // Text stand-ins for pictures, by their index in the history
+    currentPicture: number; // History index of the picture we're talking about now (0 until the child shows another)
+    lookAgain: boolean; // The model asked to see the current picture on its next request
+    summary: string | null; // What happened in the turns we no longer send
+    summarizedCount: number; // How many messages after the first picture the summary covers
+}
+
+export const CONTEXT_BUDGET = {
+    maxTokens: 3000, // Summarize once a request would be bigger than this
+    keepRecentMessages: 6, // Always sent word for word
+};
+
+export const createContextState = (): ContextState => ({
+    descriptions: {},
+    currentPicture: 0,
+    lookAgain: false,
+    summary: null,
+    summarizedCount: 0,
+});
+
+// Rough fallback for backends that don't report usage: ~4 characters per token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const IMAGE_TOKENS = 800; // Roughly what a high-detail photo costs
+
+export const estimateHistoryTokens = (history: ChatMessage[]) =>
+    history.reduce((total, message) => {
+        if (typeof message.content === 'string') return total + estimateTokens(message.content);
+        return total + message.content.reduce((sum, part) => sum + (part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS), 0);
+    }, 0);
+
+// Never start a slice on a tool result: the API rejects one without the assistant message that called it
+const safeCut = (messages: ChatMessage[], index: number) => {
+    let cut = index;
+    while (cut < messages.length && messages[cut].role === 'tool') cut++;
+    return cut;
+};
+
+// Sent along with a picture the child switches to mid-chat
+export const NEW_PICTURE_PROMPT = "Look at this one now! The child wants to show you a new picture. " +
+    "Compare it with the last one or keep the story going with it, and ask one fun question.";
+
+// Added after what the child heard of a reply they cut off
+export const INTERRUPTED_NOTE = '... (The child interrupted you here.)';
+
+// The child talked over the buddy: the reply keeps only what they heard, so the model knows where it got cut off
+export const markInterrupted = (history: ChatMessage[], heard: string[]): ChatMessage[] => {
+    let index = history.length - 1;
+    while (index >= 0 && !(history[index].role === 'assistant' && history[index].content)) index--;
+    if (index === -1) return history;
+    const content = `${heard.join(' ')}${INTERRUPTED_NOTE}`;
+    return history.map((message, i) => (i === index && message.role === 'assistant' ? { ...message, content } : message));
+};
+
+// Swaps the image for words, keeping whatever the message asked alongside it
+const describePicture = (picture: ChatMessage, description: string): ChatMessage => {
+    if (picture.role !== 'user' || typeof picture.content === 'string') return picture;
+    const request = picture.content.find(part => part.type === 'text');
+    return {
+        role: 'user',
+        content: `${request?.type === 'text' ? `${request.text}\n\n` : ''}${description}`,
+    };
+};
+
+export const textOf = (message: ChatMessage) => {
+    if (typeof message.content === 'string') return message.content;
+    const part = message.content.find(p => p.type === 'text');
+    return part?.type === 'text' ? part.text : '';
+};
+
+// A child's turn with a close-up of the spot they pointed at (rather than a picture to talk about)
+export const isCloseUp = (message: ChatMessage) => message.role === 'user' && readPointingNote(textOf(message)).point !== null;
+
+// Later on, a close-up goes as the note about where they pointed
+const dropCloseUp = (message: ChatMessage): ChatMessage => {
+    const { text, point } = readPointingNote(textOf(message));
+    return { role: 'user', content: point ? addPointingNote(text, point, false) : text };
+};
+
+// The current picture goes as is until it's described (or when the model wants another look);
+// earlier ones go as their description, or as a note that there was one
+const showPicture = (message: ChatMessage, index: number, state: ContextState, isLatest: boolean): ChatMessage => {
+    if (message.role !== 'user' || typeof message.content === 'string') return message;
+    if (!message.content.some(part => part.type === 'image_url')) return message;
+    if (isCloseUp(message)) return isLatest ? message : dropCloseUp(message);
+
+    const description = state.descriptions[index];
+    if (index !== state.currentPicture) {
+        return describePicture(message, description
+            ? `An earlier picture, described in words: ${description}`
+            : '(An earlier picture the child showed you.)');
+    }
+    if (!description || state.lookAgain) return message;
+    return describePicture(message, `The picture, described in words: ${description}\n` +
+        `(If you need a detail that isn't in the description, use the 'look_at_picture_again' tool.)`);
+};
+
+// Starts the system message that carries the summary, so the proxy can tell it apart
+export const SUMMARY_PREFIX = 'Summary of the conversation so far: ';
+
+// The history as the model should see it for the next request
+export const buildRequestHistory = (history: ChatMessage[], state: ContextState): ChatMessage[] => {
+    if (history.length === 0) return history;
+    let latest = history.length - 1;
+    while (latest > 0 && history[latest].role !== 'user') latest--;
+    const [picture, ...rest] = history.map((message, i) => showPicture(message, i, state, i === latest));
+
+    const summary: ChatMessage[] = state.summary
+        ? [{ role: 'system', content: `${SUMMARY_PREFIX}${state.summary}` }]
+        : [];
+    // A picture the child switched to stays in, even once the turns around it have been summarized
+    const cut = safeCut(rest, state.summarizedCount);
+    const current = state.currentPicture > 0 && state.currentPicture - 1 < cut ? [rest[state.currentPicture - 1]] : [];
+    return [picture, ...summary, ...current, ...rest.slice(cut)];
+};
+
+// Which messages to fold into the summary, or null while the request still fits the budget
+export const planSummary = (history: ChatMessage[], state: ContextState) => {
+    if (estimateHistoryTokens(buildRequestHistory(history, state)) <= CONTEXT_BUDGET.maxTokens) return null;
+
+    const rest = history.slice(1);
+    const upTo = safeCut(rest, Math.max(0, rest.length - CONTEXT_BUDGET.keepRecentMessages));
+    if (upTo <= state.summarizedCount) return null;
+    return { messages: rest.slice(state.summarizedCount, upTo), summarizedCount: upTo };
+};
+
+// "Child: ... / Buddy: ..." lines for the summarizer; tool traffic and system notes are left out
+const transcriptLine = (message: ChatMessage) => {
+    if (message.role !== 'user' && message.role !== 'assistant') return '';
+    if (typeof message.content !== 'string' && !isCloseUp(message)) return 'Child: (shows you a new picture)';
+    const { text, point } = readPointingNote(textOf(message));
+    const line = point ? `${text} (pointing at the picture)` : text;
+    return line.trim() ? `${message.role === 'user' ? 'Child' : 'Buddy'}: ${line}` : '';
+};
+
+export const messagesToTranscript = (messages: ChatMessage[]) => messages.map(transcriptLine).filter(Boolean).join('\n');
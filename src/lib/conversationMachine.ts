@@ -0,0 +1,86 @@
+// The conversation's flow as a state machine. Everything that moves the App from one state to another
+// is a named event, and an event that doesn't fit the current state is rejected instead of racing:
+// a typed answer while the recognizer is still finishing, a mic tap while the buddy is thinking...
+// Plain functions with no React or browser in sight, so the flow can be driven from a test or a script.
+
+export type AppState = 'IDLE' | 'ANALYZING' | 'SPEAKING' | 'LISTENING' | 'THINKING' | 'ERROR' | 'ENDED';
+
+export type ConversationEvent =
+    | { type: 'IMAGE_READY' } // A picture to talk about: starts a chat, or is shown mid-chat
+    | { type: 'AI_REPLY' } // The buddy started saying something (again for each sentence is fine)
+    | { type: 'SPEECH_END'; isEnding: boolean } // The buddy finished talking; after the goodbye the chat is over
+    | { type: 'USER_UTTERANCE'; text: string } // The child said or typed something
+    | { type: 'BARGE_IN' } // The child talked over the buddy
+    | { type: 'TIMEOUT' } // Listening ended without hearing anything, so the buddy nudges
+    | { type: 'FAILURE'; message: string }
+    | { type: 'RESUME' } // Ask again for the reply that failed, keeping the chat
+    | { type: 'RESET' }; // Back to the picture screen, dropping whatever was in flight
+
+export type ConversationEventType = ConversationEvent['type'];
+
+export interface MachineLogEntry {
+    at: number;
+    event: ConversationEventType;
+    from: AppState;
+    to: AppState | null; // Null when the event was rejected
+    detail?: string; // What the child said, or what went wrong
+}
+
+export interface ConversationMachine {
+    state: AppState;
+    log: MachineLogEntry[]; // The latest events, oldest first
+}
+
+const MAX_LOG_ENTRIES = 200;
+
+const ACTIVE_STATES: AppState[] = ['ANALYZING', 'THINKING', 'SPEAKING', 'LISTENING'];
+const ALL_STATES: AppState[] = ['IDLE', 'ERROR', 'ENDED', ...ACTIVE_STATES];
+
+const from = (states: AppState[], to: AppState) => Object.fromEntries(states.map(state => [state, to])) as Partial<Record<AppState, AppState>>;
+
+// Where each event may happen, and where it leads
+const TRANSITIONS: Record<ConversationEventType, Partial<Record<AppState, AppState>>> = {
+    IMAGE_READY: { ...from(['IDLE', 'ENDED', 'ERROR'], 'ANALYZING'), LISTENING: 'THINKING' },
+    AI_REPLY: from(['ANALYZING', 'THINKING', 'SPEAKING'], 'SPEAKING'),
+    SPEECH_END: { SPEAKING: 'LISTENING' },
+    USER_UTTERANCE: { LISTENING: 'THINKING' },
+    BARGE_IN: { SPEAKING: 'LISTENING' },
+    TIMEOUT: { LISTENING: 'SPEAKING' },
+    FAILURE: from(ACTIVE_STATES, 'ERROR'),
+    RESUME: { ERROR: 'THINKING' },
+    RESET: from(ALL_STATES, 'IDLE'),
+};
+
+export const createConversationMachine = (): ConversationMachine => ({ state: 'IDLE', log: [] });
+
+const nextState = (state: AppState, event: ConversationEvent): AppState | null => {
+    const to = TRANSITIONS[event.type][state] ?? null;
+    if (event.type === 'SPEECH_END' && event.isEnding && to) return 'ENDED';
+    return to;
+};
+
+const describeEvent = (event: ConversationEvent) =>
+    event.type === 'USER_UTTERANCE' ? event.text : event.type === 'FAILURE' ? event.message : undefined;
+
+// The reducer. A rejected event leaves the state alone but still goes in the log.
+export const conversationReducer = (machine: ConversationMachine, event: ConversationEvent, now = Date.now()): ConversationMachine => {
+    const to = nextState(machine.state, event);
+    const entry: MachineLogEntry = { at: now, event: event.type, from: machine.state, to };
+    const detail = describeEvent(event);
+    if (detail !== undefined) entry.detail = detail;
+
+    return {
+        state: to ?? machine.state,
+        log: [...machine.log, entry].slice(-MAX_LOG_ENTRIES),
+    };
+};
+
+export const wasAccepted = (machine: ConversationMachine) => machine.log.at(-1)?.to !== null;
+
+// One line per event, e.g. "12:01:05 USER_UTTERANCE LISTENING -> THINKING (a big dino)"
+export const formatMachineLog = (log: MachineLogEntry[]) =>
+    log.map(entry => {
+        const time = new Date(entry.at).toTimeString().slice(0, 8);
+        const result = entry.to ? `${entry.from} -> ${entry.to}` : `rejected in ${entry.from}`;
+        return `${time} ${entry.event} ${result}${entry.detail !== undefined ? ` (${entry.detail})` : ''}`;
+    }).join('\n');
@@ -0,0 +1,32 @@
+import type { TokenUsage } from './provider';
+
+// Token usage turned into an approximate price, for the parents' cost panel and the spending cap.
+// Prices are whatever the parent enters; the defaults match gpt-4o.
+
+export interface CostSettings {
+    inputPricePerMillion: number; // USD per 1M prompt tokens
+    outputPricePerMillion: number; // USD per 1M completion tokens
+    sessionCapUsd: number | null; // The buddy says goodbye once a chat has cost this much; null for no cap
+}
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+    inputPricePerMillion: 2.5,
+    outputPricePerMillion: 10,
+    sessionCapUsd: null,
+};
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+});
+
+export const estimateCost = (usage: TokenUsage, settings: CostSettings) =>
+    (usage.promptTokens * settings.inputPricePerMillion + usage.completionTokens * settings.outputPricePerMillion) / 1_000_000;
+
+export const isOverCap = (usage: TokenUsage, settings: CostSettings) =>
+    settings.sessionCapUsd !== null && estimateCost(usage, settings) >= settings.sessionCapUsd;
+
+// Cents matter here: a whole chat is usually well under a dollar
+export const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
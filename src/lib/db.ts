@@ -0,0 +1,46 @@
+// The app's one IndexedDB database, shared by the chat logs and the picture gallery.
+
+const DB_NAME = 'magic_buddy';
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+export const PICTURES_STORE = 'pictures';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+                }
+                if (!db.objectStoreNames.contains(PICTURES_STORE)) {
+                    db.createObjectStore(PICTURES_STORE, { keyPath: 'id' }).createIndex('addedAt', 'addedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null; // Let the next call try again
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+export const runRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
@@ -0,0 +1,99 @@
+import { getMessages } from './i18n';
+import type { ConversationProvider, ProviderReply, ProviderStartReply, StoryDraft, ToolCallRequest } from './provider';
+import type { Region } from './pointing';
+import { MAX_STORY_PAGES, readStoryTranscript } from './storybook';
+import { BUNDLED_DEMO_SCRIPTS, DEMO_COLORS, nextDemoTurn, pickDemoLines, type DemoScript, type DemoTurn } from './demoScript';
+
+// --- Mock / Demo Mode ---
+
+let demoCallCount = 0;
+
+// Builds the same tool call shape a real model would send, so demo mode exercises the tool registry too
+const toolCall = (name: string, args: Record<string, unknown>): ToolCallRequest => ({
+    id: `demo_call_${++demoCallCount}`,
+    type: 'function',
+    function: { name, arguments: JSON.stringify(args) }
+});
+
+const changeBackground = (color: string) => toolCall('change_background', { color });
+const showSticker = (sticker: string) => toolCall('show_sticker', { sticker });
+const highlightRegion = (box: Region) => toolCall('highlight_region', { ...box, shape: 'circle' });
+
+// Simulated delays, so the UI states still show up in Demo Mode
+const START_DELAY_MS = 1500;
+const REPLY_DELAY_MS = 1000;
+
+const toToolCalls = (turn: DemoTurn): ToolCallRequest[] => [
+    ...(turn.color ? [changeBackground(turn.color)] : []),
+    ...(turn.sticker ? [showSticker(turn.sticker)] : []),
+    ...(turn.highlight ? [highlightRegion(turn.highlight)] : []),
+];
+
+// Which of the moments get a page: spread over the whole chat, always the first and the last
+const pickEvenly = (total: number, count: number) => total <= count
+    ? Array.from({ length: total }, (_, i) => i)
+    : Array.from({ length: count }, (_, i) => Math.round(i * (total - 1) / (count - 1)));
+
+// The template quotes the child, who usually doesn't say where their sentence ends
+const withFullStop = (text: string) => (/[.!?।…]$/u.test(text) ? text : `${text}.`);
+
+// For the sentences that start with "our little explorer" when nobody picked a profile
+const capitalize = (text: string, language: string) => text.charAt(0).toLocaleUpperCase(language) + text.slice(1);
+
+const pause = (ms: number, enabled: boolean) => (enabled ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve());
+
+// Scripted conversations from src/demoScripts/, plus an optional script the parent loaded.
+// The provider only remembers which picture the chat started from; everything else comes from the history.
+// The simulator turns the delays off.
+export const createDemoProvider = (customScript: DemoScript | null = null, { simulateDelays = true } = {}): ConversationProvider => {
+    const scripts = customScript ? [customScript, ...BUNDLED_DEMO_SCRIPTS] : BUNDLED_DEMO_SCRIPTS;
+    let picture = '';
+
+    return {
+        id: 'demo',
+        label: customScript ? `Demo Mode (${customScript.id})` : 'Demo Mode',
+        capabilities: { vision: false, tools: true, streaming: false, moderation: false, memory: false },
+
+        // Without vision the App hands over the picture's path, which is how bundled pictures get their own script
+        startFromImage: async (image, context): Promise<ProviderStartReply> => {
+            await pause(START_DELAY_MS, simulateDelays);
+            picture = image;
+            return {
+                text: pickDemoLines(scripts, picture, context.language).opener,
+                toolCalls: [changeBackground(DEMO_COLORS.green)],
+                initialUserMessage: { role: "user", content: "Image Analysis Request" },
+            };
+        },
+
+        continueConversation: async (history, context): Promise<ProviderReply> => {
+            await pause(REPLY_DELAY_MS, simulateDelays);
+
+            // The app adds a system note to the request when it's time to say goodbye
+            if (history[history.length - 1]?.role === 'system') {
+                return { text: getMessages(context.language).wrapUpGoodbye, toolCalls: [] };
+            }
+
+            const turn = nextDemoTurn(pickDemoLines(scripts, picture, context.language), history);
+            return { text: turn.text, toolCalls: toToolCalls(turn) };
+        },
+
+        // A template story around what the child said, so the storybook works without a model too
+        writeStory: async (transcript, context): Promise<StoryDraft> => {
+            await pause(REPLY_DELAY_MS, simulateDelays);
+            const template = getMessages(context.language).storyTemplate;
+            const hero = context.child?.name ?? template.hero;
+            const moments = readStoryTranscript(transcript);
+            const picked = pickEvenly(moments.length, MAX_STORY_PAGES);
+            return {
+                title: template.title(context.child?.name ?? null),
+                pages: picked.map((index, i) => {
+                    const said = moments[index].childSaid.trim();
+                    const lines = [said ? template.idea(hero, withFullStop(said)) : template.wonder(hero)];
+                    if (i === 0) lines.unshift(template.opening(hero));
+                    if (i === picked.length - 1) lines.push(template.ending(hero));
+                    return { moment: index + 1, text: lines.map(line => capitalize(line, context.language)).join(' ') };
+                }),
+            };
+        },
+    };
+};
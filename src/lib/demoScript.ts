@@ -0,0 +1,245 @@
+import { isLanguage, type Language } from './i18n';
+import type { ChatMessage } from './provider';
+import { readPointingNote, regionContains, type Region } from './pointing';
+import { findWord } from '../utils/words';
+import dinoScript from '../demoScripts/dino.json';
+import rocketScript from '../demoScripts/rocket.json';
+import catScript from '../demoScripts/cat.json';
+import oceanScript from '../demoScripts/ocean.json';
+import genericScript from '../demoScripts/generic.json';
+
+// Demo Mode's conversations, written as JSON (see src/demoScripts/) so they can be edited,
+// translated or swapped for a parent's own file without touching code.
+//
+// Each language has intents (words to listen for and what to say back). An intent can lead
+// to a state with its own follow-up intents, like "Is it hot?" -> "yes"/"no".
+//
+// Hotspots are the parts of a picture a child can point at. Their boxes are shared by every
+// language (at the top of the file); each language has its own replies for them.
+
+export interface DemoIntent {
+    words: string[]; // Whole words or short phrases; any one of them matches
+    replies: string[]; // Used in turn, so the buddy doesn't repeat itself
+    color?: string; // A name from DEMO_COLORS or any CSS colour
+    sticker?: string; // A show_sticker name
+    next?: string; // State to move to; without one the chat goes back to the top-level intents
+}
+
+export interface DemoHotspot {
+    name: string;
+    box: Region; // 0 to 1 from the picture's top left, like highlight_region
+    replies: string[];
+}
+
+export interface DemoLines {
+    opener: string;
+    newPicture: string; // When the child switches pictures mid-chat
+    fallbacks: string[]; // Nothing matched; used in turn like replies
+    synonyms?: Record<string, string[]>; // Extra words for any word used in the intents
+    intents: DemoIntent[]; // First match wins, so keep yes/no near the end
+    states?: Record<string, DemoIntent[]>; // Checked before the top-level intents while in that state
+    hotspots?: DemoHotspot[]; // First one containing the point wins, so list small parts before big ones
+}
+
+export interface DemoScript {
+    id: string;
+    pictures: string[]; // Picture paths it's written for; empty for any picture
+    languages: Partial<Record<Language, DemoLines>>;
+}
+
+// Colours are shared so every language paints the same scene
+export const DEMO_COLORS: Record<string, string> = {
+    red: "#ffe5e5",
+    blue: "#e0f7fa",
+    green: "#e3fded",
+    sky: "#e1f5fe",
+    warm: "#fff3e0", // Orange/Warm
+    bold: "#ffecb3", // Yellow/Bold
+    playful: "#f3e5f5", // Purple/Playful
+    night: "#cfd8dc", // Grey/Night
+};
+
+// --- Parsing ---
+// Script files come from parents too, so check every field and say exactly which one is wrong.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readText = (value: unknown, path: string): string => {
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`${path} must be some text`);
+    return value.trim();
+};
+
+const readTextList = (value: unknown, path: string): string[] => {
+    if (!Array.isArray(value) || value.length === 0) throw new Error(`${path} must be a list with at least one entry`);
+    return value.map((item, i) => readText(item, `${path}[${i}]`));
+};
+
+const readOptionalText = (value: unknown, path: string) => (value === undefined ? undefined : readText(value, path));
+
+const readIntents = (value: unknown, path: string): DemoIntent[] => {
+    if (!Array.isArray(value)) throw new Error(`${path} must be a list`);
+    return value.map((item, i) => {
+        const at = `${path}[${i}]`;
+        if (!isRecord(item)) throw new Error(`${at} must be an object`);
+        return {
+            words: readTextList(item.words, `${at}.words`),
+            replies: readTextList(item.replies, `${at}.replies`),
+            color: readOptionalText(item.color, `${at}.color`),
+            sticker: readOptionalText(item.sticker, `${at}.sticker`),
+            next: readOptionalText(item.next, `${at}.next`),
+        };
+    });
+};
+
+const readFraction = (value: unknown, path: string): number => {
+    if (typeof value !== 'number' || value < 0 || value > 1) throw new Error(`${path} must be a number from 0 to 1`);
+    return value;
+};
+
+const readBoxes = (value: unknown): Record<string, Region> => {
+    if (value === undefined) return {};
+    if (!isRecord(value)) throw new Error('hotspots must be an object');
+    const boxes: Record<string, Region> = {};
+    for (const [name, box] of Object.entries(value)) {
+        const at = `hotspots.${name}`;
+        if (!isRecord(box)) throw new Error(`${at} must be an object`);
+        boxes[name] = {
+            x: readFraction(box.x, `${at}.x`),
+            y: readFraction(box.y, `${at}.y`),
+            width: readFraction(box.width, `${at}.width`),
+            height: readFraction(box.height, `${at}.height`),
+        };
+    }
+    return boxes;
+};
+
+const readHotspots = (value: unknown, path: string, boxes: Record<string, Region>): DemoHotspot[] => {
+    if (value === undefined) return [];
+    if (!isRecord(value)) throw new Error(`${path} must be an object`);
+    return Object.entries(value).map(([name, replies]) => {
+        if (!Object.hasOwn(boxes, name)) throw new Error(`${path}.${name} has no box in hotspots`);
+        return { name, box: boxes[name], replies: readTextList(replies, `${path}.${name}`) };
+    });
+};
+
+const readLines = (value: unknown, path: string, boxes: Record<string, Region>): DemoLines => {
+    if (!isRecord(value)) throw new Error(`${path} must be an object`);
+
+    const synonyms: Record<string, string[]> = {};
+    if (value.synonyms !== undefined) {
+        if (!isRecord(value.synonyms)) throw new Error(`${path}.synonyms must be an object`);
+        for (const [word, others] of Object.entries(value.synonyms)) {
+            synonyms[word] = readTextList(others, `${path}.synonyms.${word}`);
+        }
+    }
+
+    const states: Record<string, DemoIntent[]> = {};
+    if (value.states !== undefined) {
+        if (!isRecord(value.states)) throw new Error(`${path}.states must be an object`);
+        for (const [name, intents] of Object.entries(value.states)) {
+            states[name] = readIntents(intents, `${path}.states.${name}`);
+        }
+    }
+
+    const lines: DemoLines = {
+        opener: readText(value.opener, `${path}.opener`),
+        newPicture: readText(value.newPicture, `${path}.newPicture`),
+        fallbacks: readTextList(value.fallbacks, `${path}.fallbacks`),
+        synonyms,
+        intents: readIntents(value.intents, `${path}.intents`),
+        states,
+        hotspots: readHotspots(value.hotspots, `${path}.hotspots`, boxes),
+    };
+
+    // A typo in "next" would otherwise quietly strand the chat at the top level
+    const allIntents = [...lines.intents, ...Object.values(states).flat()];
+    const missing = allIntents.find(intent => intent.next && !states[intent.next]);
+    if (missing) throw new Error(`${path} has no state called '${missing.next}'`);
+    return lines;
+};
+
+// Throws with the path of the first problem, e.g. "languages.en.intents[2].replies must be a list..."
+export const parseDemoScript = (data: unknown): DemoScript => {
+    if (!isRecord(data)) throw new Error('The script must be a JSON object');
+    const pictures = data.pictures === undefined ? [] : data.pictures;
+    if (!Array.isArray(pictures) || pictures.some(p => typeof p !== 'string')) throw new Error('pictures must be a list of picture paths');
+    if (!isRecord(data.languages)) throw new Error('languages must be an object');
+    const boxes = readBoxes(data.hotspots);
+
+    const languages: Partial<Record<Language, DemoLines>> = {};
+    for (const [code, lines] of Object.entries(data.languages)) {
+        if (!isLanguage(code)) throw new Error(`languages.${code} is not a supported language`);
+        languages[code] = readLines(lines, `languages.${code}`, boxes);
+    }
+    if (Object.keys(languages).length === 0) throw new Error('languages needs at least one language');
+
+    return { id: typeof data.id === 'string' && data.id.trim() ? data.id.trim() : 'custom', pictures, languages };
+};
+
+const GENERIC_SCRIPT = parseDemoScript(genericScript);
+
+// Picture-specific scripts first; the generic one covers uploads and has every language
+export const BUNDLED_DEMO_SCRIPTS: DemoScript[] = [
+    ...[dinoScript, rocketScript, catScript, oceanScript].map(parseDemoScript),
+    GENERIC_SCRIPT,
+];
+
+// A script written for this picture wins, then one for any picture
+export const pickDemoLines = (scripts: DemoScript[], picture: string, language: Language): DemoLines => {
+    const script = scripts.find(s => s.pictures.includes(picture) && s.languages[language])
+        ?? scripts.find(s => s.pictures.length === 0 && s.languages[language]);
+    return script?.languages[language] ?? GENERIC_SCRIPT.languages[language] ?? GENERIC_SCRIPT.languages.en!;
+};
+
+// --- Running a script ---
+
+export interface DemoTurn {
+    text: string;
+    color?: string; // Already resolved to a CSS colour
+    sticker?: string;
+    highlight?: Region; // The hotspot the child pointed at
+}
+
+const matchesIntent = (lines: DemoLines, intent: DemoIntent, text: string) =>
+    findWord(text, intent.words.flatMap(word => [word, ...(lines.synonyms?.[word] ?? [])])) !== undefined;
+
+const findIntent = (lines: DemoLines, state: string | undefined, text: string) => {
+    const candidates = [...(state ? lines.states?.[state] ?? [] : []), ...lines.intents];
+    return candidates.find(intent => matchesIntent(lines, intent, text));
+};
+
+// Something the buddy hasn't said yet, or else the one said longest ago
+const pickFresh = (options: string[], said: string[]) =>
+    options.find(option => !said.includes(option)) ??
+    [...options].sort((a, b) => said.lastIndexOf(a) - said.lastIndexOf(b))[0];
+
+// The history is the demo's only memory: replaying the child's earlier answers gives the state
+// the chat is in now, and the buddy's earlier lines tell which replies have been used up.
+// The first message is the picture request, so it's skipped.
+export const nextDemoTurn = (lines: DemoLines, history: ChatMessage[]): DemoTurn => {
+    const said = history.filter(m => m.role === 'assistant').map(m => m.content);
+    const childTurns = history.slice(1).filter(m => m.role === 'user');
+    const last = childTurns.pop();
+
+    let state: string | undefined;
+    for (const turn of childTurns) {
+        state = typeof turn.content === 'string' ? findIntent(lines, state, readPointingNote(turn.content).text)?.next : undefined;
+    }
+
+    // A picture shown mid-chat comes as a list of parts rather than plain text
+    if (last && typeof last.content !== 'string') return { text: lines.newPicture, color: DEMO_COLORS.playful };
+
+    // Pointing at a hotspot gets its own answer, whatever the child said with it
+    const { text, point } = readPointingNote(typeof last?.content === 'string' ? last.content : '');
+    const hotspot = point && lines.hotspots?.find(h => regionContains(h.box, point));
+    if (hotspot) return { text: pickFresh(hotspot.replies, said), highlight: hotspot.box };
+
+    const intent = findIntent(lines, state, text);
+    if (!intent) return { text: pickFresh(lines.fallbacks, said) };
+    return {
+        text: pickFresh(intent.replies, said),
+        color: intent.color ? DEMO_COLORS[intent.color] ?? intent.color : undefined,
+        sticker: intent.sticker,
+    };
+};
@@ -0,0 +1,49 @@
+import { APIConnectionError, APIConnectionTimeoutError, APIError } from 'openai';
+
+// What went wrong with a request for the buddy's reply, in the terms the App acts on.
+// The transient ones are worth retrying; the others need a grown-up (invalidKey), another picture or topic (refusal),
+// or a new conversation because the proxy no longer knows this one (sessionExpired).
+export type ProviderErrorKind = 'invalidKey' | 'sessionExpired' | 'rateLimit' | 'network' | 'timeout' | 'server' | 'refusal' | 'unknown';
+
+const TRANSIENT_KINDS: ProviderErrorKind[] = ['rateLimit', 'network', 'timeout', 'server'];
+
+export class ProviderError extends Error {
+    kind: ProviderErrorKind;
+    constructor(kind: ProviderErrorKind, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.kind = kind;
+    }
+}
+
+export const isTransient = (kind: ProviderErrorKind) => TRANSIENT_KINDS.includes(kind);
+
+// The proxy's own refusals say their kind in the body; a 403 from it is a lost conversation, not a bad key
+export const errorKindForStatus = (status: number): ProviderErrorKind => {
+    if (status === 401 || status === 403) return 'invalidKey'; // 403: a key without access to the model
+    if (status === 429) return 'rateLimit'; // Also an exhausted quota, which OpenAI reports the same way
+    if (status === 408 || status === 504) return 'timeout';
+    if (status >= 500) return 'server';
+    return 'unknown';
+};
+
+// OpenAI's codes for a request the model won't answer (usually the picture)
+const REFUSAL_CODES = ['content_policy_violation', 'content_filter'];
+
+export const classifyError = (error: unknown): ProviderErrorKind => {
+    if (error instanceof ProviderError) return error.kind;
+    if (error instanceof APIConnectionTimeoutError) return 'timeout';
+    if (error instanceof APIConnectionError) return 'network';
+    if (error instanceof APIError) {
+        if (typeof error.code === 'string' && REFUSAL_CODES.includes(error.code)) return 'refusal';
+        return error.status ? errorKindForStatus(error.status) : 'unknown';
+    }
+    if (error instanceof Error && error.name === 'TimeoutError') return 'timeout';
+    // What fetch() throws when it can't connect at all; the wording differs per browser
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) return 'network';
+    return 'unknown';
+};
+
+export const toProviderError = (error: unknown): ProviderError =>
+    error instanceof ProviderError
+        ? error
+        : new ProviderError(classifyError(error), error instanceof Error ? error.message : String(error), { cause: error });
@@ -0,0 +1,41 @@
+import { PICTURES_STORE, runRequest } from './db';
+
+// Pictures to pick from: a few that ship with the app, plus the ones the child uploaded or snapped lately.
+// Recent ones are kept already shrunk (see prepareImage), so a dozen of them stay small.
+
+export interface GalleryPicture {
+    id: string;
+    src: string; // A path under public/ for bundled pictures, a data URL for recent ones
+    addedAt: number;
+}
+
+export const BUNDLED_PICTURES: GalleryPicture[] = [
+    { id: 'bundled-dino', src: '/dino.svg', addedAt: 0 },
+    { id: 'bundled-rocket', src: '/rocket.svg', addedAt: 0 },
+    { id: 'bundled-cat', src: '/cat.svg', addedAt: 0 },
+    { id: 'bundled-ocean', src: '/ocean.svg', addedAt: 0 },
+];
+
+export const MAX_RECENT_PICTURES = 12;
+
+// Newest first
+export const listRecentPictures = async (): Promise<GalleryPicture[]> => {
+    const pictures = await runRequest<GalleryPicture[]>(PICTURES_STORE, 'readonly', store => store.getAll());
+    return pictures.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+// Showing the same picture again just moves it back to the front
+export const addRecentPicture = async (src: string): Promise<void> => {
+    const pictures = await listRecentPictures();
+    const existing = pictures.find(p => p.src === src);
+    await runRequest(PICTURES_STORE, 'readwrite', store => store.put({ id: existing?.id ?? crypto.randomUUID(), src, addedAt: Date.now() }));
+
+    const stale = pictures.filter(p => p !== existing).slice(MAX_RECENT_PICTURES - 1);
+    for (const picture of stale) {
+        await runRequest(PICTURES_STORE, 'readwrite', store => store.delete(picture.id));
+    }
+};
+
+export const deleteRecentPicture = async (id: string): Promise<void> => {
+    await runRequest(PICTURES_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,33 @@
+import en from '../locales/en';
+import es from '../locales/es';
+import hi from '../locales/hi';
+
+// One language setting drives everything: speech recognition, the synthesis voice,
+// the language the model replies in, and every string in the UI.
+
+export type Language = 'en' | 'es' | 'hi';
+
+export interface LanguageInfo {
+    code: Language;
+    nativeName: string; // Shown in the language picker
+    locale: string; // BCP 47 tag for speech recognition and synthesis
+    promptName: string; // How we name the language to the model
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+    en: { code: 'en', nativeName: 'English', locale: 'en-US', promptName: 'English' },
+    es: { code: 'es', nativeName: 'Español', locale: 'es-ES', promptName: 'Spanish' },
+    hi: { code: 'hi', nativeName: 'हिन्दी', locale: 'hi-IN', promptName: 'Hindi' },
+};
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language => typeof value === 'string' && value in LANGUAGES;
+
+export type Messages = typeof en;
+
+const CATALOGS: Record<Language, Messages> = { en, es, hi };
+
+export const getMessages = (language: Language): Messages => CATALOGS[language] ?? en;
+
+export const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
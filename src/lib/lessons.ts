@@ -0,0 +1,77 @@
+// Guided mini-lessons on top of the picture chat. A parent picks a goal, the prompt steers the buddy
+// toward little activities that fit the picture, and the model awards a star (the award_star tool)
+// for each right answer. Stars are saved with the session, which is where the progress report comes from.
+
+export type LessonGoal = 'counting' | 'colours' | 'shapes' | 'rhyming';
+
+export const LESSON_GOALS: LessonGoal[] = ['counting', 'colours', 'shapes', 'rhyming'];
+
+export const LESSON_EMOJI: Record<LessonGoal, string> = {
+    counting: '🔢',
+    colours: '🎨',
+    shapes: '🔺',
+    rhyming: '🎵',
+};
+
+// What each goal asks of the model. In English like the rest of the prompt; the reply language is set separately.
+const LESSON_ACTIVITIES: Record<LessonGoal, string> = {
+    counting: "Counting: ask the child to count things they can see in the picture (spikes, legs, stars, windows). Start with small numbers, and count along together if they get stuck.",
+    colours: "Colours: ask the child to name the colour of something in the picture, or to find something of a colour you name.",
+    shapes: "Shapes: ask the child to find shapes in the picture, like something round, something square, a triangle or a long straight line.",
+    rhyming: "Rhyming: play rhyming games with words from the picture (what rhymes with 'dino'?). Silly made-up words that rhyme count too.",
+};
+
+export const MAX_STARS_PER_SESSION = 10; // Past this the model is just handing them out
+
+export interface EarnedStar {
+    skill: string; // What the child got right, in the model's words, e.g. "counted 5 spikes"
+    at: number;
+}
+
+// Saved with a session when it had a lesson
+export interface SessionLesson {
+    goal: LessonGoal;
+    stars: EarnedStar[];
+}
+
+export const isLessonGoal = (value: unknown): value is LessonGoal =>
+    typeof value === 'string' && (LESSON_GOALS as string[]).includes(value);
+
+// The system prompt's lesson section
+export const toLessonPrompt = (goal: LessonGoal) => `
+This chat is also a little lesson. ${LESSON_ACTIVITIES[goal]}
+- Weave one activity at a time into the chat about the picture; it should feel like a game, not a test.
+- When the child gets one right, cheer and use the 'award_star' tool (one star per right answer, never for a wrong one).
+- If they get it wrong, help them gently and let them try again. Keep the lesson going until the chat ends.`;
+
+export interface SkillProgress {
+    goal: LessonGoal;
+    sessions: number;
+    stars: number;
+    lastPractisedAt: number;
+    recentSkills: string[]; // Newest first
+}
+
+const RECENT_SKILLS = 3;
+
+// How often a child practised each skill, across every saved session that had a lesson.
+// Most practised first; skills never practised are left out.
+export const buildProgressReport = (
+    sessions: { startedAt: number; profileId?: string; lesson?: SessionLesson }[],
+    profileId: string
+): SkillProgress[] => {
+    const byGoal = new Map<LessonGoal, SkillProgress>();
+    const newestFirst = sessions.filter(s => s.profileId === profileId && s.lesson).sort((a, b) => b.startedAt - a.startedAt);
+
+    for (const session of newestFirst) {
+        const lesson = session.lesson!;
+        const progress = byGoal.get(lesson.goal) ?? { goal: lesson.goal, sessions: 0, stars: 0, lastPractisedAt: session.startedAt, recentSkills: [] };
+        progress.sessions++;
+        progress.stars += lesson.stars.length;
+        const skills = lesson.stars.map(star => star.skill).reverse();
+        progress.recentSkills = [...progress.recentSkills, ...skills].slice(0, RECENT_SKILLS);
+        byGoal.set(lesson.goal, progress);
+    }
+
+    return [...byGoal.values()].sort((a, b) => b.sessions - a.sessions || b.stars - a.stars);
+};
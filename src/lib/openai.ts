@@ -1,199 +1,265 @@
 import OpenAI from 'openai';
+import type { ChatContentPart, ChatMessage, ConversationProvider, ModerationResult, PromptContext, ProviderKind, ProviderReply, ProviderStartReply, ProviderText, ReplyStreamHandlers, StoryDraft, TokenUsage, ToolCallRequest } from './provider';
+import { LANGUAGES } from './i18n';
+import { getAgeGuidance, type ChildPrompt } from './profile';
+import { toLessonPrompt } from './lessons';
+import { toolSchemas } from './tools';
+import { MAX_STORY_PAGES, readStoryDraft } from './storybook';
+import { ProviderError } from './errors';
 
-let openai: OpenAI | null = null;
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
 
-export const initializeOpenAI = (apiKey: string) => {
-    openai = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true // Client-side demo
-    });
+// What we know about the child, or nothing when no profile was picked
+const describeChild = (child?: ChildPrompt) => {
+    if (!child) return '';
+    const lines = [`- Call the child ${child.name} now and then.`];
+    if (child.interests.length > 0) {
+        lines.push(`- ${child.name} loves ${child.interests.join(', ')}. Bring these up when they fit the picture.`);
+    }
+    if (child.memories.length > 0) {
+        lines.push(`Things ${child.name} told you in earlier chats (mention one only if it fits naturally):`);
+        lines.push(...child.memories.map(fact => `  - ${fact}`));
+    }
+    return lines.join('\n');
 };
 
-export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string | Array<any>;
-}
-
-const SYSTEM_PROMPT = `
-You are a friendly, enthusiastic, and kind AI companion for a 5-7 year old child.
-Your goal is to have a 1-minute fun conversation about the image shown.
-- Speak simply and clearly.
-- Keep your responses short (1-2 sentences maximum).
+const buildSystemPrompt = (context: PromptContext) => {
+    const child = context.child;
+    const guidance = getAgeGuidance(child?.age ?? 6);
+    return `
+You are ${context.persona.name}, a friendly and kind AI companion for ${child ? `a ${child.age} year old child called ${child.name}` : 'a 5-7 year old child'}.
+${context.persona.personality}
+Your goal is to have a short, fun conversation about the image shown.
+- Stay in character, but never say anything scary or unkind.
+- When you first see the picture: ${context.persona.greetingStyle}
+- ${guidance.words}
+- ${guidance.length}
+${describeChild(child)}
 - Ask engaging questions about the image or the child's imagination.
 - If the child or the conversation suggests a color change (e.g. "It's sunny!", "I like blue"), use the 'change_background' tool.
+- When the story moves somewhere new (under the sea, into space, a rainy day), set the scene with the 'set_scene' tool.
+- When the child says something exciting, you can celebrate with the 'show_sticker' tool.
+- When you talk about one part of the picture, circle it with the 'highlight_region' tool. If the child points at the picture, their message says where.
+- Always say something out loud, even when you use a tool.
+- If the child says goodbye or wants to stop, say goodbye and use the 'end_conversation' tool.
 - Always be encouraging.
+- Always reply in ${LANGUAGES[context.language].promptName}, even if the child mixes in another language.
+${context.lesson ? toLessonPrompt(context.lesson) : ''}`;
+};
+
+const MEMORY_PROMPT = `
+You help a children's conversation app remember a child between chats.
+From the transcript, list at most 3 short facts the child shared about themselves that would be nice to bring up next time,
+such as a favourite colour, a pet's name, or something they love doing. Write each fact in English, in the third person, under 10 words.
+Never include surnames, addresses, schools, phone numbers, or anything sad or private. If there is nothing worth remembering, return an empty list.
+Reply with JSON only: {"facts": ["..."]}
 `;
 
-export const analyzeImageAndStart = async (base64Image: string): Promise<{ text: string; toolCall?: { color: string }, initialUserMessage: ChatMessage }> => {
-    if (!openai) throw new Error("OpenAI not initialized");
-
-    const initialUserMessage: ChatMessage = {
-        role: "user",
-        content: [
-            { type: "text", text: "What is in this image? Start a conversation with a child about it. Say hello and ask a fun question!" },
-            {
-                type: "image_url",
-                image_url: {
-                    "url": base64Image,
-                },
-            },
-        ],
-    };
+const DESCRIBE_PROMPT = `
+Describe this picture in words for someone who can't see it, in 3-4 sentences.
+Cover the main subject, colours, the setting, and small details a curious child might ask about.
+`;
 
-    const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-            { role: "system", content: SYSTEM_PROMPT },
-            initialUserMessage as any
-        ],
-        tools: [
-            {
-                type: "function",
-                function: {
-                    name: "change_background",
-                    description: "Change the background color of the app.",
-                    parameters: {
-                        type: "object",
-                        properties: {
-                            color: { type: "string", description: "A valid CSS color." }
-                        },
-                        required: ["color"]
-                    }
-                }
-            }
-        ]
-    });
+const SUMMARY_PROMPT = `
+Summarize this conversation between a child and their buddy in at most 4 sentences, in English.
+Keep what the child said they like, any names they mentioned, and the question the buddy is waiting on.
+`;
 
-    const message = response.choices[0].message;
-    let toolCall = undefined;
-
-    if (message.tool_calls && message.tool_calls.length > 0) {
-        const call = message.tool_calls[0];
-        if (call.function.name === 'change_background') {
-            try {
-                const args = JSON.parse(call.function.arguments);
-                toolCall = { color: args.color };
-            } catch (e) {
-                console.error("Failed to parse tool args", e);
-            }
-        }
+const buildStoryPrompt = (context: PromptContext) => {
+    const child = context.child;
+    const hero = child?.name ?? 'the child';
+    return `
+You turn a chat between ${child ? `${child.name}, a ${child.age} year old,` : 'a young child'} and their buddy ${context.persona.name} into a short picture book for the child.
+The chat is split into numbered moments. Write at most ${MAX_STORY_PAGES} pages, in order, each going with one moment; that moment's picture goes on the page.
+Make ${hero} the hero and keep the ideas ${hero} came up with. ${getAgeGuidance(child?.age ?? 6).words}
+Each page is 1-3 short sentences. Nothing scary, sad or unkind, and finish with a happy ending.
+Write the title and the pages in ${LANGUAGES[context.language].promptName}.
+Reply with JSON only: {"title": "...", "pages": [{"moment": 1, "text": "..."}]}
+`;
+};
+
+// Models sometimes wrap the JSON in prose or code fences, so take the first {...} we can parse
+const parseJson = (text: string): unknown => {
+    const json = text.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return null;
+    try {
+        return JSON.parse(json);
+    } catch {
+        return null;
     }
+};
 
-    return {
-        text: message.content || "Hello! I see something fun!",
-        toolCall,
-        initialUserMessage
-    };
+const parseFacts = (text: string): string[] => {
+    const facts = (parseJson(text) as { facts?: unknown } | null)?.facts;
+    return Array.isArray(facts) ? facts.filter((f): f is string => typeof f === 'string').slice(0, 3) : [];
 };
 
-export const continueConversation = async (history: ChatMessage[]): Promise<{ text: string; toolCall?: { color: string } }> => {
-    if (!openai) throw new Error("OpenAI not initialized");
-
-    const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-            { role: "system", content: SYSTEM_PROMPT },
-            ...history as any
-        ],
-        tools: [
-            {
-                type: "function",
-                function: {
-                    name: "change_background",
-                    description: "Change the background color of the app.",
-                    parameters: {
-                        type: "object",
-                        properties: {
-                            color: { type: "string", description: "A valid CSS color." }
-                        },
-                        required: ["color"]
-                    }
-                }
-            }
-        ]
+const TOOLS: OpenAI.Chat.ChatCompletionTool[] = toolSchemas().map(schema => ({
+    type: "function",
+    function: schema
+}));
+
+export interface OpenAIProviderOptions {
+    kind: Extract<ProviderKind, 'openai' | 'compatible'>;
+    label: string;
+    apiKey: string;
+    baseURL?: string; // Any OpenAI-compatible server, e.g. llama.cpp or Ollama
+    model: string;
+}
+
+export const createOpenAIProvider = (options: OpenAIProviderOptions): ConversationProvider => {
+    const openai = new OpenAI({
+        apiKey: options.apiKey,
+        baseURL: options.baseURL,
+        dangerouslyAllowBrowser: true // Client-side demo
     });
 
-    const message = response.choices[0].message;
-    let toolCall = undefined;
-
-    if (message.tool_calls && message.tool_calls.length > 0) {
-        const call = message.tool_calls[0];
-        if (call.function.name === 'change_background') {
-            try {
-                const args = JSON.parse(call.function.arguments);
-                toolCall = { color: args.color };
-            } catch (e) {
-                console.error("Failed to parse tool args", e);
+    const complete = async (messages: ChatMessage[], context: PromptContext, handlers: ReplyStreamHandlers = {}) => {
+        const stream = await openai.chat.completions.create({
+            model: options.model,
+            messages: [
+                { role: "system", content: buildSystemPrompt(context) },
+                ...messages as OpenAI.Chat.ChatCompletionMessageParam[]
+            ],
+            tools: TOOLS,
+            stream: true,
+            stream_options: { include_usage: true }
+        }, { signal: handlers.signal });
+
+        let content = '';
+        let refusal = '';
+        // Tool calls arrive in fragments while streaming; we glue them back together by index
+        const toolCalls: ToolCallRequest[] = [];
+        let usage: TokenUsage | undefined;
+
+        // Hand over a finished tool call right away so the background changes while the buddy is still talking
+        const finishToolCall = (index: number) => {
+            if (toolCalls[index]) handlers.onToolCall?.(toolCalls[index]);
+        };
+
+        for await (const chunk of stream) {
+            // With include_usage the totals arrive in a final chunk that has no choices
+            if (chunk.usage) {
+                usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+            }
+
+            // The model won't answer this one (usually because of the picture); asking again won't change that
+            if (chunk.choices[0]?.finish_reason === 'content_filter') {
+                throw new ProviderError('refusal', "The reply was stopped by the content filter");
+            }
+
+            const delta = chunk.choices[0]?.delta;
+            if (!delta) continue;
+            if (delta.refusal) refusal += delta.refusal;
+
+            if (delta.content) {
+                content += delta.content;
+                handlers.onTextDelta?.(delta.content);
+            }
+
+            for (const fragment of delta.tool_calls ?? []) {
+                // A new index means the previous call has received all of its arguments
+                if (!toolCalls[fragment.index] && fragment.index > 0) finishToolCall(fragment.index - 1);
+                // Some local servers leave out the id, but the tool result message needs one to point at
+                const call = toolCalls[fragment.index] ??= { id: `call_${fragment.index}`, type: 'function', function: { name: '', arguments: '' } };
+                if (fragment.id) call.id = fragment.id;
+                if (fragment.function?.name) call.function.name += fragment.function.name;
+                if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
             }
         }
-    }
+        if (toolCalls.length > 0) finishToolCall(toolCalls.length - 1);
+        if (refusal && !content) throw new ProviderError('refusal', refusal);
 
-    return {
-        text: message.content || "That's interesting! Tell me more.",
-        toolCall
+        return { content, toolCalls: toolCalls.filter(Boolean), usage };
     };
-};
 
-// --- Mock / Demo Mode ---
+    const startFromImage = async (base64Image: string, context: PromptContext, handlers?: ReplyStreamHandlers): Promise<ProviderStartReply> => {
+        const initialUserMessage: ChatMessage = {
+            role: "user",
+            content: [
+                { type: "text", text: "What is in this image? Start a conversation with a child about it. Say hello and ask a fun question!" },
+                {
+                    type: "image_url",
+                    image_url: {
+                        "url": base64Image,
+                    },
+                },
+            ],
+        };
 
-export const mockAnalyzeImageAndStart = async (): Promise<{ text: string; toolCall?: { color: string }, initialUserMessage: ChatMessage }> => {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
+        const { content, toolCalls, usage } = await complete([initialUserMessage], context, handlers);
+        return {
+            text: content,
+            toolCalls,
+            usage,
+            initialUserMessage
+        };
+    };
 
-    const initialUserMessage: ChatMessage = {
-        role: "user",
-        content: "Image Analysis Request"
+    const continueConversation = async (history: ChatMessage[], context: PromptContext, handlers?: ReplyStreamHandlers): Promise<ProviderReply> => {
+        const { content, toolCalls, usage } = await complete(history, context, handlers);
+        return {
+            text: content,
+            toolCalls,
+            usage
+        };
     };
 
-    return {
-        text: "Wow! That looks like a super happy dinosaur! Is he going on an adventure?",
-        toolCall: { color: "#e3fded" }, // Light green
-        initialUserMessage
+    const moderate = async (text: string): Promise<ModerationResult> => {
+        const response = await openai.moderations.create({ model: "omni-moderation-latest", input: text });
+        const result = response.results[0];
+        return {
+            flagged: result.flagged,
+            categories: Object.entries(result.categories).filter(([, hit]) => hit).map(([category]) => category)
+        };
     };
-};
 
-export const mockContinueConversation = async (history: ChatMessage[]): Promise<{ text: string; toolCall?: { color: string } }> => {
-    // Simulate thinking delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    const lastUserMsg = history[history.length - 1];
-    const userText = typeof lastUserMsg.content === 'string' ? lastUserMsg.content.toLowerCase() : '';
-
-    let responseText = "That sounds like so much fun! What else can he do?";
-    let toolCall = undefined;
-
-    if (userText.includes('red') || userText.includes('fire') || userText.includes('hot')) {
-        responseText = "Oh wow! Red like a volcano! Is it hot?";
-        toolCall = { color: "#ffe5e5" };
-    } else if (userText.includes('blue') || userText.includes('water') || userText.includes('swim')) {
-        responseText = "Splash! Blue like the ocean. Can he swim?";
-        toolCall = { color: "#e0f7fa" };
-    } else if (userText.includes('green') || userText.includes('grass') || userText.includes('leaf')) {
-        responseText = "Yum! Green like fresh leaves. Is he hungry?";
-        toolCall = { color: "#e3fded" };
-    } else if (userText.includes('fly') || userText.includes('wings')) {
-        responseText = "Zoom! Flying high in the sky! Where is he going?";
-        toolCall = { color: "#e1f5fe" };
-    } else if (userText.includes('eat') || userText.includes('food') || userText.includes('hungry')) {
-        responseText = "Crunch crunch! He loves eating big leaves and fruits. What is your favorite food?";
-        toolCall = { color: "#fff3e0" }; // Orange/Warm
-    } else if (userText.includes('roar') || userText.includes('loud')) {
-        responseText = "ROAAAR! He has a big loud voice! Can you roar like a dinosaur?";
-        toolCall = { color: "#ffecb3" }; // Yellow/Bold
-    } else if (userText.includes('friend') || userText.includes('play')) {
-        responseText = "Friends are the best! Does he play tag or hide-and-seek?";
-        toolCall = { color: "#f3e5f5" }; // Purple/Playful
-    } else if (userText.includes('sleep') || userText.includes('tired') || userText.includes('bed')) {
-        responseText = "Shhh... tight sleep. Maybe he dreams of flying?";
-        toolCall = { color: "#cfd8dc" }; // Grey/Night
-    } else if (userText.includes('yes') || userText.includes('yeah')) {
-        responseText = "Yay! I knew it! Tell me more!";
-    } else if (userText.includes('no') || userText.includes('nope')) {
-        responseText = "Oh really? What mistakes did I make? Tell me the secret!";
-    }
+    // One-off, non-streaming request for the helper calls below
+    const completeText = async (instruction: string, input: string | ChatContentPart[]): Promise<ProviderText> => {
+        const response = await openai.chat.completions.create({
+            model: options.model,
+            messages: [
+                { role: "system", content: instruction },
+                { role: "user", content: input } as OpenAI.Chat.ChatCompletionUserMessageParam
+            ],
+        });
+        return {
+            text: response.choices[0]?.message?.content?.trim() ?? '',
+            usage: response.usage && { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        };
+    };
+
+    const extractMemories = async (transcript: string, context: PromptContext): Promise<string[]> => {
+        const { text } = await completeText(MEMORY_PROMPT, `The child is called ${context.child?.name ?? 'the child'}.\n\n${transcript}`);
+        return parseFacts(text);
+    };
+
+    // Low detail is plenty for a description and costs a fraction of the full picture
+    const describeImage = (base64Image: string) =>
+        completeText(DESCRIBE_PROMPT, [{ type: "image_url", image_url: { url: base64Image, detail: "low" } }]);
+
+    const summarize = (transcript: string, previousSummary: string | null) =>
+        completeText(SUMMARY_PROMPT, previousSummary ? `Earlier summary: ${previousSummary}\n\nWhat happened next:\n${transcript}` : transcript);
+
+    const writeStory = async (transcript: string, context: PromptContext): Promise<StoryDraft> => {
+        const { text, usage } = await completeText(buildStoryPrompt(context), transcript);
+        return { ...readStoryDraft(parseJson(text)), usage };
+    };
+
+    // Local servers rarely implement /moderations, so only real OpenAI gets it
+    const canModerate = options.kind === 'openai';
 
     return {
-        text: responseText,
-        toolCall
+        id: options.kind,
+        label: options.label,
+        // We can't probe a local server for these, so assume a vision + tools model was configured
+        capabilities: { vision: true, tools: true, streaming: true, moderation: canModerate, memory: true },
+        startFromImage,
+        continueConversation,
+        moderate: canModerate ? moderate : undefined,
+        extractMemories,
+        describeImage,
+        summarize,
+        writeStory
     };
 };
@@ -0,0 +1,73 @@
+// The grown-ups' side of the app: a gate in front of the settings, and a daily playtime allowance.
+// The gate is a PIN if the parent set one, otherwise a sum young children can't do yet. Neither is
+// real security (everything lives in this browser); they just keep little fingers out of the settings.
+
+export interface ParentSettings {
+    pinHash: string | null; // SHA-256 of the PIN; null means the maths challenge
+    dailyLimitMinutes: number | null; // Playtime across all chats in a day; null for no limit
+    childCanPickPictures: boolean; // Otherwise only the grown-ups can change the picture
+}
+
+export const DEFAULT_PARENT_SETTINGS: ParentSettings = {
+    pinHash: null,
+    dailyLimitMinutes: null,
+    childCanPickPictures: true,
+};
+
+export const PIN_LENGTH = { min: 4, max: 8 };
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${PIN_LENGTH.min},${PIN_LENGTH.max}}$`).test(pin);
+
+export const hashPin = async (pin: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`magic-buddy:${pin}`));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export interface MathChallenge {
+    a: number;
+    b: number;
+    answer: number;
+}
+
+// A two-digit number times a single digit: easy for a grown-up, out of reach for the app's 3-10 year olds
+export const createMathChallenge = (random = Math.random): MathChallenge => {
+    const a = 12 + Math.floor(random() * 8); // 12 - 19
+    const b = 3 + Math.floor(random() * 7); // 3 - 9
+    return { a, b, answer: a * b };
+};
+
+// --- Daily allowance ---
+
+export interface DailyUsage {
+    day: string; // Local date, YYYY-MM-DD; usage from any other day doesn't count
+    usedMs: number;
+    unlockedDay?: string; // A grown-up lifted the limit for this day
+}
+
+export const EMPTY_DAILY_USAGE: DailyUsage = { day: '', usedMs: 0 };
+
+export const toDayKey = (now: number) => {
+    const date = new Date(now);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getUsedTodayMs = (usage: DailyUsage, now: number) => (usage.day === toDayKey(now) ? usage.usedMs : 0);
+
+export const recordPlaytime = (usage: DailyUsage, ms: number, now: number): DailyUsage => {
+    const day = toDayKey(now);
+    return usage.day === day
+        ? { ...usage, usedMs: usage.usedMs + Math.max(0, ms) }
+        : { day, usedMs: Math.max(0, ms) };
+};
+
+export const unlockForToday = (usage: DailyUsage, now: number): DailyUsage => {
+    const day = toDayKey(now);
+    return usage.day === day ? { ...usage, unlockedDay: day } : { day, usedMs: 0, unlockedDay: day };
+};
+
+// Playtime left today, or null when there's no limit (or a grown-up unlocked today)
+export const getRemainingMs = (settings: ParentSettings, usage: DailyUsage, now: number): number | null => {
+    if (settings.dailyLimitMinutes === null || usage.unlockedDay === toDayKey(now)) return null;
+    return Math.max(0, settings.dailyLimitMinutes * 60 * 1000 - getUsedTodayMs(usage, now));
+};
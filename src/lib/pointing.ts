@@ -0,0 +1,80 @@
+// Pointing at the picture, both ways: the child taps a spot and the buddy hears where, and the
+// buddy circles a part of the picture while it talks. Everything is in picture coordinates from
+// 0 to 1, measured from the top left, so it doesn't matter how big the picture is on screen.
+
+export interface NormalizedPoint {
+    x: number;
+    y: number;
+}
+
+export interface Region {
+    x: number; // Left edge
+    y: number; // Top edge
+    width: number;
+    height: number;
+}
+
+export const HIGHLIGHT_SHAPES = ['circle', 'box'] as const;
+export type HighlightShape = typeof HIGHLIGHT_SHAPES[number];
+
+export interface Highlight extends Region {
+    shape: HighlightShape;
+}
+
+export const isHighlightShape = (value: unknown): value is HighlightShape => HIGHLIGHT_SHAPES.includes(value as HighlightShape);
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+
+// Keeps a region inside the picture, trimming whatever hangs over an edge
+export const clampRegion = (region: Region): Region => {
+    const x = clamp(region.x, 0, 1);
+    const y = clamp(region.y, 0, 1);
+    return { x, y, width: clamp(region.width, 0, 1 - x), height: clamp(region.height, 0, 1 - y) };
+};
+
+export const regionContains = (region: Region, point: NormalizedPoint) =>
+    point.x >= region.x && point.x <= region.x + region.width && point.y >= region.y && point.y <= region.y + region.height;
+
+// --- On screen ---
+// The picture is shown with object-fit: contain, so it may not fill its box; these convert between the two.
+
+// Where the picture sits inside its box, as a region of the box
+export const fitContain = (imageAspect: number, boxAspect: number): Region => {
+    if (!imageAspect || !boxAspect) return { x: 0, y: 0, width: 1, height: 1 };
+    if (imageAspect > boxAspect) {
+        const height = boxAspect / imageAspect;
+        return { x: 0, y: (1 - height) / 2, width: 1, height };
+    }
+    const width = imageAspect / boxAspect;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+};
+
+// A tap on the box as a point on the picture, or null if it landed on the empty space around it
+export const toImagePoint = (boxPoint: NormalizedPoint, fit: Region): NormalizedPoint | null => {
+    if (!regionContains(fit, boxPoint)) return null;
+    return { x: (boxPoint.x - fit.x) / fit.width, y: (boxPoint.y - fit.y) / fit.height };
+};
+
+export const toBoxRegion = (region: Region, fit: Region): Region => ({
+    x: fit.x + region.x * fit.width,
+    y: fit.y + region.y * fit.height,
+    width: region.width * fit.width,
+    height: region.height * fit.height,
+});
+
+// --- In the conversation ---
+// The point travels as a note on the child's message, so every provider gets it (the demo reads it back).
+
+const NOTE_PATTERN = /\n\(The child is pointing at the picture: x=([\d.]+), y=([\d.]+)[^)]*\)$/;
+
+export const addPointingNote = (text: string, point: NormalizedPoint, hasCloseUp: boolean) =>
+    `${text}\n(The child is pointing at the picture: x=${point.x.toFixed(2)}, y=${point.y.toFixed(2)}, from 0 to 1 from the top left.` +
+    `${hasCloseUp ? ' A close-up of that spot is attached, circled in red.' : ''}` +
+    " You can use the 'highlight_region' tool to show which part you're talking about.)";
+
+// The child's own words, and where they pointed if they did
+export const readPointingNote = (text: string): { text: string; point: NormalizedPoint | null } => {
+    const match = text.match(NOTE_PATTERN);
+    if (!match) return { text, point: null };
+    return { text: text.slice(0, match.index), point: { x: Number(match[1]), y: Number(match[2]) } };
+};
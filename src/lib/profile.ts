@@ -0,0 +1,79 @@
+import { redactPersonalInfo } from './safety';
+
+// Who is playing. A profile shapes how the buddy talks (age, name, interests) and carries
+// a few facts the child shared in earlier chats, so the buddy can remember them next time.
+
+export interface ChildMemory {
+    id: string;
+    fact: string; // e.g. "Favourite colour is purple"
+    learnedAt: number;
+}
+
+export interface ChildProfile {
+    id: string;
+    name: string;
+    age: number;
+    interests: string[];
+    memories: ChildMemory[];
+}
+
+// The parts of a profile the model sees
+export interface ChildPrompt {
+    name: string;
+    age: number;
+    interests: string[];
+    memories: string[];
+}
+
+export const MIN_AGE = 3;
+export const MAX_AGE = 10;
+const MAX_MEMORIES = 20; // Oldest are forgotten first, so the prompt stays small
+
+export const createProfile = (): ChildProfile => ({
+    id: crypto.randomUUID(),
+    name: '',
+    age: 6,
+    interests: [],
+    memories: [],
+});
+
+export const toChildPrompt = (profile: ChildProfile): ChildPrompt => ({
+    name: profile.name,
+    age: profile.age,
+    interests: profile.interests,
+    memories: profile.memories.map(m => m.fact),
+});
+
+// How to talk to a child of this age: word choice and how long each reply may be
+export const getAgeGuidance = (age: number) => {
+    if (age <= 4) {
+        return {
+            words: "Use only very simple, everyday words a toddler knows. One idea at a time.",
+            length: "Keep every reply to 1 short sentence of about 8 words, plus at most one yes/no or 'what colour' question.",
+        };
+    }
+    if (age <= 7) {
+        return {
+            words: "Speak simply and clearly.",
+            length: "Keep your responses short (1-2 sentences maximum).",
+        };
+    }
+    return {
+        words: "Use rich but friendly vocabulary, and explain any new word in a few words.",
+        length: "Keep your responses to 2-3 sentences, and ask open-ended 'why' or 'what if' questions.",
+    };
+};
+
+// New facts from a session, minus duplicates and anything that looks like personal details.
+// The model is told not to extract those, but this is a child's data so check again.
+export const mergeMemories = (profile: ChildProfile, facts: string[], now = Date.now()): ChildProfile => {
+    const known = new Set(profile.memories.map(m => m.fact.toLowerCase()));
+    const fresh: ChildMemory[] = [];
+    for (const raw of facts) {
+        const fact = raw.trim();
+        if (!fact || known.has(fact.toLowerCase()) || redactPersonalInfo(fact).found.length > 0) continue;
+        known.add(fact.toLowerCase());
+        fresh.push({ id: crypto.randomUUID(), fact, learnedAt: now });
+    }
+    return { ...profile, memories: [...profile.memories, ...fresh].slice(-MAX_MEMORIES) };
+};
@@ -0,0 +1,108 @@
+import type { Language } from './i18n';
+import type { PersonaPrompt } from './persona';
+import type { ChildPrompt } from './profile';
+import type { LessonGoal } from './lessons';
+
+// Shared contract between the app and whatever is generating the buddy's replies.
+// The app only ever talks to a ConversationProvider, so swapping OpenAI for the demo
+// script or a local OpenAI-compatible server (llama.cpp, Ollama...) is a settings change.
+
+export type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+// A tool call as the model asked for it. Arguments stay raw JSON until the tool registry validates them.
+export interface ToolCallRequest {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+// Mirrors the OpenAI message shapes so history can be sent as-is to any compatible API
+export type ChatMessage =
+    | { role: 'system' | 'user'; content: string | ChatContentPart[] }
+    | { role: 'assistant'; content: string; tool_calls?: ToolCallRequest[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface ProviderReply {
+    text: string; // May be empty when the model only called tools
+    toolCalls: ToolCallRequest[];
+    usage?: TokenUsage; // Only when the backend reports it
+}
+
+// Plain text from one of the helper calls (describing the picture, summarizing)
+export interface ProviderText {
+    text: string;
+    usage?: TokenUsage;
+}
+
+// A storybook written from a finished chat. Each page says which moment of the chat it's about (counting from 1).
+export interface StoryDraft {
+    title: string;
+    pages: { moment: number; text: string }[];
+    usage?: TokenUsage;
+}
+
+export interface ProviderStartReply extends ProviderReply {
+    initialUserMessage: ChatMessage;
+}
+
+export interface ProviderCapabilities {
+    vision: boolean; // Can look at the picture (otherwise we don't bother encoding it)
+    tools: boolean; // Understands function/tool calling
+    streaming: boolean; // Calls the stream handlers as the reply arrives
+    moderation: boolean; // Implements moderate()
+    memory: boolean; // Implements extractMemories()
+}
+
+export interface ModerationResult {
+    flagged: boolean;
+    categories: string[];
+}
+
+// Optional callbacks for providers that stream. Non-streaming providers simply ignore them,
+// so callers must still use the resolved reply as the source of truth.
+export interface ReplyStreamHandlers {
+    onTextDelta?: (delta: string) => void;
+    onToolCall?: (toolCall: ToolCallRequest) => void;
+    signal?: AbortSignal; // Aborted when the chat is reset; providers that can should cancel the request
+}
+
+// Per-conversation settings that shape the prompt. Sent with every request so the
+// provider itself stays stateless (and the proxy can forward it as-is).
+export interface PromptContext {
+    language: Language;
+    persona: PersonaPrompt;
+    child?: ChildPrompt; // Unset when nobody picked a profile
+    lesson?: LessonGoal; // Unset for an open-ended chat
+}
+
+export interface ConversationProvider {
+    id: ProviderKind;
+    label: string;
+    capabilities: ProviderCapabilities;
+    startFromImage: (base64Image: string, context: PromptContext, handlers?: ReplyStreamHandlers) => Promise<ProviderStartReply>;
+    continueConversation: (history: ChatMessage[], context: PromptContext, handlers?: ReplyStreamHandlers) => Promise<ProviderReply>;
+    moderate?: (text: string) => Promise<ModerationResult>;
+    // Picks out a few facts worth remembering about the child from a finished chat transcript
+    extractMemories?: (transcript: string, context: PromptContext) => Promise<string[]>;
+    // Used to keep requests small: a text stand-in for the picture, and a summary of older turns
+    describeImage?: (base64Image: string) => Promise<ProviderText>;
+    summarize?: (transcript: string, previousSummary: string | null) => Promise<ProviderText>;
+    // Turns the moments of a finished chat (see toStoryTranscript) into a short story for the child
+    writeStory?: (transcript: string, context: PromptContext) => Promise<StoryDraft>;
+}
+
+export type ProviderKind = 'openai' | 'compatible' | 'demo' | 'proxy';
+
+export interface ProviderSettings {
+    kind: ProviderKind;
+    apiKey: string;
+    baseURL: string; // Only used by 'compatible', e.g. http://localhost:11434/v1
+    model: string;
+}
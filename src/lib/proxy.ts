@@ -0,0 +1,129 @@
+import { ProviderError, errorKindForStatus, type ProviderErrorKind } from './errors';
+import type { ChatMessage, ConversationProvider, ModerationResult, PromptContext, ProviderReply, ProviderStartReply, ProviderText, ReplyStreamHandlers, StoryDraft, ToolCallRequest } from './provider';
+import { readStoryDraft } from './storybook';
+
+// Talks to the optional proxy in server/, which holds the API key so the browser never sees it.
+// Replies come back as newline-delimited JSON events so streaming still works through the proxy.
+
+export type ProxyEvent =
+    | { type: 'session'; sessionId: string } // First event of a new conversation: the id the proxy counts its limits by
+    | { type: 'text'; delta: string }
+    | { type: 'tool_call'; call: ToolCallRequest }
+    | { type: 'done'; reply: ProviderReply | ProviderStartReply }
+    | { type: 'error'; message: string; kind?: ProviderErrorKind };
+
+const readErrorBody = async (response: Response): Promise<{ error?: string; kind?: ProviderErrorKind }> => {
+    try {
+        return await response.json() as { error?: string; kind?: ProviderErrorKind };
+    } catch {
+        return {};
+    }
+};
+
+const readError = async (response: Response) => (await readErrorBody(response)).error || response.statusText;
+
+const toError = async (response: Response) => {
+    const body = await readErrorBody(response);
+    return new ProviderError(body.kind ?? errorKindForStatus(response.status), body.error || response.statusText);
+};
+
+// Reads the event stream, forwarding deltas to the handlers, and resolves with the final reply
+const readEvents = async <T extends ProviderReply>(response: Response, handlers: ReplyStreamHandlers = {}, onSession?: (sessionId: string) => void): Promise<T> => {
+    if (!response.ok) throw await toError(response);
+    if (!response.body) throw new Error("Proxy sent an empty response");
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (value) buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const event = JSON.parse(line) as ProxyEvent;
+            if (event.type === 'session') onSession?.(event.sessionId);
+            else if (event.type === 'text') handlers.onTextDelta?.(event.delta);
+            else if (event.type === 'tool_call') handlers.onToolCall?.(event.call);
+            else if (event.type === 'error') throw new ProviderError(event.kind ?? 'unknown', event.message);
+            else if (event.type === 'done') return event.reply as T;
+        }
+        if (done) throw new Error("Proxy closed the connection before the reply finished");
+    }
+};
+
+export const createProxyProvider = (baseUrl: string): ConversationProvider => {
+    const url = (path: string) => `${baseUrl.replace(/\/$/, '')}${path}`;
+    // The proxy's rate and token limits are counted per conversation; it hands out the id when one starts
+    let sessionId: string | null = null;
+    // Flipped the first time the proxy says its backend can't moderate, so we stop asking
+    let canModerate = true;
+
+    const post = (path: string, body: Record<string, unknown>, signal?: AbortSignal) => fetch(url(path), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, ...body }),
+        signal,
+    });
+
+    const startFromImage = async (base64Image: string, context: PromptContext, handlers?: ReplyStreamHandlers) => {
+        sessionId = null;
+        return readEvents<ProviderStartReply>(await post('/api/conversation/start', { image: base64Image, context }, handlers?.signal), handlers, id => {
+            sessionId = id;
+        });
+    };
+
+    const continueConversation = async (history: ChatMessage[], context: PromptContext, handlers?: ReplyStreamHandlers) =>
+        readEvents<ProviderReply>(await post('/api/conversation/continue', { history, context }, handlers?.signal), handlers);
+
+    const moderate = async (text: string): Promise<ModerationResult> => {
+        if (!canModerate) return { flagged: false, categories: [] };
+
+        const response = await post('/api/moderate', { text });
+        if (response.status === 501) {
+            canModerate = false;
+            return { flagged: false, categories: [] };
+        }
+        if (!response.ok) throw new Error(await readError(response));
+        return await response.json() as ModerationResult;
+    };
+
+    const extractMemories = async (transcript: string, context: PromptContext): Promise<string[]> => {
+        const response = await post('/api/memories', { transcript, context });
+        if (response.status === 501) return [];
+        if (!response.ok) throw new Error(await readError(response));
+        return (await response.json() as { facts: string[] }).facts;
+    };
+
+    const postForText = async (path: string, body: Record<string, unknown>): Promise<ProviderText> => {
+        const response = await post(path, body);
+        if (!response.ok) throw new Error(await readError(response));
+        return await response.json() as ProviderText;
+    };
+
+    const describeImage = (base64Image: string) => postForText('/api/describe', { image: base64Image });
+
+    const summarize = (transcript: string, previousSummary: string | null) =>
+        postForText('/api/summarize', { transcript, previousSummary });
+
+    const writeStory = async (transcript: string, context: PromptContext): Promise<StoryDraft> => {
+        const response = await post('/api/story', { transcript, context });
+        if (!response.ok) throw new Error(await readError(response));
+        const body = await response.json() as StoryDraft;
+        return { ...readStoryDraft(body), usage: body.usage };
+    };
+
+    return {
+        id: 'proxy',
+        label: 'Magic Buddy Server',
+        capabilities: { vision: true, tools: true, streaming: true, moderation: true, memory: true },
+        startFromImage,
+        continueConversation,
+        moderate,
+        extractMemories,
+        describeImage,
+        summarize,
+        writeStory,
+    };
+};
@@ -0,0 +1,63 @@
+import { ProviderError, isTransient, toProviderError } from './errors';
+
+// Pauses before each retry, a bit longer every time. Two retries are about as long as a child will wait.
+export const RETRY_DELAYS_MS = [1000, 3000];
+// Generous, because a local model on a laptop can take a while to look at a photo
+export const REQUEST_TIMEOUT_MS = 60000;
+
+export interface RetryOptions {
+    signal: AbortSignal; // The chat's: aborting it stops the attempt and the waiting
+    canRetry?: () => boolean; // E.g. not once the child has heard part of the reply
+    onRetry?: (error: ProviderError, retry: number) => void;
+}
+
+// The chat's signal lives for the whole chat, so the listener comes off again once the pause is over
+const wait = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Runs a request with a timeout, retrying the transient failures. Whatever finally fails is thrown
+// as a ProviderError, except when the chat itself was aborted.
+export const withRetry = async <T>(attempt: (signal: AbortSignal) => Promise<T>, { signal, canRetry = () => true, onRetry }: RetryOptions): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+        const controller = new AbortController();
+        const abort = () => controller.abort(signal.reason);
+        signal.addEventListener('abort', abort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, REQUEST_TIMEOUT_MS);
+
+        try {
+            return await attempt(controller.signal);
+        } catch (e) {
+            if (signal.aborted) throw e;
+            const error = timedOut
+                ? new ProviderError('timeout', `No reply after ${REQUEST_TIMEOUT_MS / 1000} seconds`, { cause: e })
+                : !navigator.onLine
+                    ? new ProviderError('network', 'The device is offline', { cause: e })
+                    : toProviderError(e);
+            if (retry >= RETRY_DELAYS_MS.length || !isTransient(error.kind) || !canRetry()) throw error;
+
+            onRetry?.(error, retry + 1);
+            await wait(RETRY_DELAYS_MS[retry], signal);
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', abort);
+        }
+    }
+};
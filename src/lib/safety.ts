@@ -0,0 +1,163 @@
+import type { ConversationProvider } from './provider';
+import { findWord } from '../utils/words';
+
+// Child-safety checks that sit on both sides of the provider:
+// what the child says before it is sent, and what the buddy says before it is spoken.
+
+export type SafetyTopic = 'violence' | 'adult' | 'self-harm' | 'unkind';
+
+export interface SafetySettings {
+    blockedWords: string[]; // Extra words or phrases parents don't want either side to say
+    blockedTopics: SafetyTopic[];
+    redactPersonalInfo: boolean;
+    useModeration: boolean; // Only takes effect with a provider that can moderate
+}
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = {
+    blockedWords: [],
+    blockedTopics: ['violence', 'adult', 'self-harm', 'unkind'],
+    redactPersonalInfo: true,
+    useModeration: true,
+};
+
+export const TOPIC_WORDS: Record<SafetyTopic, string[]> = {
+    violence: [
+        'kill', 'killed', 'killing', 'murder', 'gun', 'guns', 'shoot', 'stab', 'blood', 'bloody', 'weapon', 'bomb',
+        'matar', 'asesinar', 'pistola', 'disparar', 'sangre', 'arma', 'bomba',
+        'मार डालो', 'हत्या', 'बंदूक', 'गोली', 'खून', 'हथियार', 'बम',
+    ],
+    adult: [
+        'sex', 'sexy', 'naked', 'drugs', 'beer', 'wine', 'alcohol', 'drunk', 'cigarette', 'vape',
+        'sexo', 'desnudo', 'drogas', 'cerveza', 'vino', 'borracho', 'cigarro',
+        'सेक्स', 'नंगा', 'ड्रग्स', 'शराब', 'बीयर', 'सिगरेट',
+    ],
+    'self-harm': [
+        'suicide', 'kill myself', 'hurt myself', 'want to die',
+        'suicidio', 'matarme', 'hacerme daño', 'quiero morir',
+        'आत्महत्या', 'मरना चाहता', 'मरना चाहती', 'खुद को चोट',
+    ],
+    unkind: [
+        'stupid', 'idiot', 'dumb', 'shut up', 'hate you', 'ugly',
+        'estúpido', 'idiota', 'tonto', 'cállate', 'te odio', 'feo',
+        'बेवकूफ', 'मूर्ख', 'चुप हो जा', 'नफरत', 'गधा',
+    ],
+};
+
+export type InterventionKind = 'blocklist' | 'topic' | 'personal-info' | 'moderation';
+
+export interface SafetyIntervention {
+    direction: 'child' | 'buddy';
+    kind: InterventionKind;
+    action: 'redacted' | 'blocked';
+    detail: string; // What was matched, never the personal info itself
+}
+
+export type SafetyVerdict =
+    | { blocked: false; text: string; interventions: SafetyIntervention[] }
+    | { blocked: true; interventions: SafetyIntervention[] };
+
+// Groups of 2-5 digits with the usual separators, so a child counting "1 2 3 4 5" isn't a phone
+// number. Still needs 7 digits and one group of 3 or more, which rules out "10 11 12 13" too.
+const PHONE_NUMBER = /(?<![\w+])(?:\+?\d{1,3}[\s.-])?(?:\(\d{2,5}\)|\d{2,5})(?:[\s.-]?\d{2,5}){1,4}(?!\w)/g;
+
+const looksLikePhoneNumber = (match: string) => {
+    const digits = match.replace(/\D/g, '');
+    return digits.length >= 7 && digits.length <= 15 && match.split(/\D+/).some(group => group.length >= 3);
+};
+
+// A number, a capitalised name and a street type: "12 Elm Street". Children's speech is full of
+// "3 dinosaurs on the way", so the name has to be capitalised, and so do suffixes that are everyday words.
+const STREET_ADDRESS = /\b\d{1,5}\s+(?:[a-z]+\s){1,3}(?:street|st|road|rd|avenue|ave|lane|ln|drive|dr|court|ct|boulevard|blvd|way|place)\b/gi;
+const EVERYDAY_SUFFIXES = new Set(['way', 'place', 'st', 'dr', 'ct', 'court', 'lane', 'drive']);
+
+const looksLikeStreetAddress = (match: string) => {
+    const [, ...words] = match.split(/\s+/);
+    const suffix = words.pop() ?? '';
+    const isCapitalised = (word: string) => /^\p{Lu}/u.test(word);
+    return words.every(isCapitalised) && (isCapitalised(suffix) || !EVERYDAY_SUFFIXES.has(suffix.toLowerCase()));
+};
+
+// `isMatch` double-checks what the pattern found, for shapes a regex alone can't tell apart
+const PERSONAL_INFO_PATTERNS: { label: string; pattern: RegExp; isMatch?: (match: string) => boolean }[] = [
+    { label: 'email', pattern: /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g },
+    { label: 'phone number', pattern: PHONE_NUMBER, isMatch: looksLikePhoneNumber },
+    { label: 'address', pattern: STREET_ADDRESS, isMatch: looksLikeStreetAddress },
+    { label: 'address', pattern: /\bi live (?:at|on) [^.,!?]+/gi },
+    { label: 'school name', pattern: /\b(?:[A-Z][a-z]+\s){1,3}(?:Elementary\s|Primary\s|Middle\s|High\s)?(?:School|Academy)\b/g },
+    { label: 'school name', pattern: /\bmy school is(?: called)? [^.,!?]+/gi },
+];
+
+export const redactPersonalInfo = (text: string): { text: string; found: string[] } => {
+    const found = new Set<string>();
+    let redacted = text;
+    for (const { label, pattern, isMatch } of PERSONAL_INFO_PATTERNS) {
+        redacted = redacted.replace(pattern, (match) => {
+            if (isMatch && !isMatch(match)) return match;
+            found.add(label);
+            return `[${label}]`;
+        });
+    }
+    return { text: redacted, found: [...found] };
+};
+
+// The fast checks that don't need the network: parent blocklist and topic words
+const checkWords = (text: string, settings: SafetySettings, direction: SafetyIntervention['direction']): SafetyIntervention | null => {
+    const customMatch = findWord(text, settings.blockedWords);
+    if (customMatch) return { direction, kind: 'blocklist', action: 'blocked', detail: `"${customMatch}"` };
+
+    for (const topic of settings.blockedTopics) {
+        const match = findWord(text, TOPIC_WORDS[topic]);
+        if (match) return { direction, kind: 'topic', action: 'blocked', detail: `${topic}: "${match}"` };
+    }
+    return null;
+};
+
+export const checkChildInput = async (
+    text: string,
+    settings: SafetySettings,
+    provider: ConversationProvider | null
+): Promise<SafetyVerdict> => {
+    const wordHit = checkWords(text, settings, 'child');
+    if (wordHit) return { blocked: true, interventions: [wordHit] };
+
+    const interventions: SafetyIntervention[] = [];
+    let safeText = text;
+    if (settings.redactPersonalInfo) {
+        const { text: redacted, found } = redactPersonalInfo(text);
+        safeText = redacted;
+        found.forEach(label => interventions.push({ direction: 'child', kind: 'personal-info', action: 'redacted', detail: label }));
+    }
+
+    if (settings.useModeration && provider?.moderate) {
+        try {
+            const result = await provider.moderate(safeText);
+            if (result.flagged) {
+                interventions.push({ direction: 'child', kind: 'moderation', action: 'blocked', detail: result.categories.join(', ') || 'flagged' });
+                return { blocked: true, interventions };
+            }
+        } catch (e) {
+            // Moderation is an extra layer on top of the word checks; don't stop the chat if it's down
+            console.warn("Moderation check failed", e);
+        }
+    }
+
+    return { blocked: false, text: safeText, interventions };
+};
+
+// Runs on every sentence before it is spoken, so it has to be synchronous:
+// streamed sentences can't wait on a network round trip each.
+export const checkBuddyOutput = (text: string, settings: SafetySettings): SafetyVerdict => {
+    const wordHit = checkWords(text, settings, 'buddy');
+    if (wordHit) return { blocked: true, interventions: [wordHit] };
+
+    // The buddy should never repeat personal details back, even ones that slipped through
+    if (settings.redactPersonalInfo) {
+        const { text: redacted, found } = redactPersonalInfo(text);
+        return {
+            blocked: false,
+            text: redacted,
+            interventions: found.map(label => ({ direction: 'buddy', kind: 'personal-info', action: 'redacted', detail: label })),
+        };
+    }
+    return { blocked: false, text, interventions: [] };
+};
@@ -0,0 +1,167 @@
+// The backdrop behind the picture: one colour or a two-colour gradient, some weather, and a mood.
+// Colours come from the model or a demo script as any text at all, so every one is mapped onto a
+// small kid-friendly palette. Each palette colour keeps the app's text readable on top of it.
+
+export const WEATHERS = ['none', 'rain', 'snow', 'stars', 'bubbles'] as const;
+export type Weather = typeof WEATHERS[number];
+
+export const MOODS = ['calm', 'happy', 'excited', 'sleepy', 'mysterious'] as const;
+export type Mood = typeof MOODS[number];
+
+export interface Scene {
+    colors: string[]; // One colour, or the two ends of a gradient; always palette colours
+    weather: Weather;
+    mood: Mood;
+}
+
+export const DEFAULT_SCENE: Scene = { colors: ['#f0f9ff'], weather: 'none', mood: 'calm' };
+
+export const isWeather = (value: unknown): value is Weather => WEATHERS.includes(value as Weather);
+export const isMood = (value: unknown): value is Mood => MOODS.includes(value as Mood);
+
+// --- Colours ---
+
+type Rgb = [number, number, number];
+
+export const SCENE_TEXT_COLOR = '#333333'; // The app's body text (see .app-container)
+export const MIN_TEXT_CONTRAST = 4.5; // WCAG AA for normal text
+
+// Soft enough to read on, and far enough apart for a child to tell them apart
+const PALETTE: Record<string, string> = {
+    red: '#ffe5e5',
+    orange: '#fff3e0',
+    yellow: '#fff8e1',
+    green: '#e3fded',
+    blue: '#e1f5fe',
+    purple: '#f3e5f5',
+    pink: '#fce4ec',
+    brown: '#efebe9',
+    grey: '#cfd8dc',
+    white: '#fafafa',
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTE);
+
+// The CSS names a model or a parent is likely to use (spaces and dashes are dropped before lookup)
+const CSS_NAMES: Record<string, string> = {
+    black: '#000000', white: '#ffffff', gray: '#808080', grey: '#808080', silver: '#c0c0c0',
+    red: '#ff0000', crimson: '#dc143c', maroon: '#800000', tomato: '#ff6347', coral: '#ff7f50', salmon: '#fa8072',
+    orange: '#ffa500', darkorange: '#ff8c00', peach: '#ffdab9', gold: '#ffd700', yellow: '#ffff00', lemon: '#fff44f',
+    green: '#008000', lime: '#00ff00', darkgreen: '#006400', olive: '#808000', mint: '#98ff98', forestgreen: '#228b22',
+    teal: '#008080', turquoise: '#40e0d0', aqua: '#00ffff', cyan: '#00ffff',
+    blue: '#0000ff', navy: '#000080', darkblue: '#00008b', royalblue: '#4169e1', skyblue: '#87ceeb', sky: '#87ceeb',
+    lightblue: '#add8e6', ocean: '#006994',
+    purple: '#800080', violet: '#ee82ee', indigo: '#4b0082', lavender: '#e6e6fa', lilac: '#c8a2c8', magenta: '#ff00ff',
+    pink: '#ffc0cb', hotpink: '#ff69b4', rose: '#ff007f',
+    brown: '#a52a2a', chocolate: '#d2691e', tan: '#d2b48c', beige: '#f5f5dc', cream: '#fffdd0',
+};
+
+const parseHex = (hex: string): Rgb | null => {
+    const digits = hex.length <= 4 ? [...hex].map(d => d + d).join('') : hex;
+    if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(digits)) return null;
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+};
+
+const hslToRgb = (h: number, s: number, l: number): Rgb => {
+    const a = s * Math.min(l, 1 - l);
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12;
+        return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [channel(0), channel(8), channel(4)];
+};
+
+// Hex, rgb(), hsl() or a common colour name; null for anything else
+export const parseColor = (text: string): Rgb | null => {
+    const value = text.trim().toLowerCase();
+    if (value.startsWith('#')) return parseHex(value.slice(1));
+
+    const numbers = value.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+    if (numbers) {
+        const parts = numbers[2].split(/[\s,/]+/).filter(Boolean).map(part => parseFloat(part));
+        if (parts.length < 3 || parts.slice(0, 3).some(Number.isNaN)) return null;
+        const [a, b, c] = parts;
+        if (numbers[1].startsWith('rgb')) return [a, b, c].map(n => Math.max(0, Math.min(255, Math.round(n)))) as Rgb;
+        return hslToRgb(((a % 360) + 360) % 360, Math.min(100, b) / 100, Math.min(100, c) / 100);
+    }
+
+    const name = value.replace(/[\s_-]+/g, '');
+    const hex = Object.hasOwn(PALETTE, name) ? PALETTE[name] : Object.hasOwn(CSS_NAMES, name) ? CSS_NAMES[name] : null;
+    return hex ? parseHex(hex.slice(1)) : null;
+};
+
+const toHsl = ([r, g, b]: Rgb) => {
+    const [rr, gg, bb] = [r / 255, g / 255, b / 255];
+    const max = Math.max(rr, gg, bb);
+    const min = Math.min(rr, gg, bb);
+    const l = (max + min) / 2;
+    if (max === min) return { h: 0, s: 0, l };
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    const h = max === rr ? ((gg - bb) / d + (gg < bb ? 6 : 0)) : max === gg ? (bb - rr) / d + 2 : (rr - gg) / d + 4;
+    return { h: h * 60, s, l };
+};
+
+const luminance = (rgb: Rgb) => {
+    const [r, g, b] = rgb.map(channel => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: Rgb, b: Rgb) => {
+    const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (light + 0.05) / (dark + 0.05);
+};
+
+const toHex = (rgb: Rgb) => `#${rgb.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+
+// Mixes in white until the text reads well, so a palette edit can't make the app unreadable
+const withTextContrast = (rgb: Rgb): Rgb => {
+    const text = parseColor(SCENE_TEXT_COLOR) as Rgb;
+    let color = rgb;
+    for (let step = 1; contrastRatio(color, text) < MIN_TEXT_CONTRAST && step <= 10; step++) {
+        color = rgb.map(channel => Math.round(channel + (255 - channel) * step / 10)) as Rgb;
+    }
+    return color;
+};
+
+const NEUTRALS = ['white', 'grey', 'brown'];
+const HUES = Object.entries(PALETTE)
+    .filter(([name]) => !NEUTRALS.includes(name))
+    .map(([name, hex]) => ({ name, hue: toHsl(parseHex(hex.slice(1)) as Rgb).h }));
+
+const hueDistance = (a: number, b: number) => Math.min(Math.abs(a - b), 360 - Math.abs(a - b));
+
+// The palette colour a child would call the same thing: navy and sky blue are both "blue"
+export const toPaletteName = (text: string): string | null => {
+    const name = text.trim().toLowerCase();
+    if (Object.hasOwn(PALETTE, name)) return name;
+    const rgb = parseColor(text);
+    if (!rgb) return null;
+    const { h, s, l } = toHsl(rgb);
+    if (s < 0.2 || l > 0.97) return l > 0.85 ? 'white' : 'grey';
+    if (h >= 10 && h <= 45 && l < 0.4) return 'brown';
+    return HUES.reduce((best, entry) => (hueDistance(entry.hue, h) < hueDistance(best.hue, h) ? entry : best)).name;
+};
+
+export const toSafeColor = (text: string): { name: string; color: string } | null => {
+    const name = toPaletteName(text);
+    return name ? { name, color: toHex(withTextContrast(parseHex(PALETTE[name].slice(1)) as Rgb)) } : null;
+};
+
+// Gradients to fall back on when the model sets a mood without saying which colours
+export const MOOD_COLORS: Record<Mood, string[]> = {
+    calm: ['blue', 'green'],
+    happy: ['yellow', 'pink'],
+    excited: ['orange', 'purple'],
+    sleepy: ['purple', 'grey'],
+    mysterious: ['blue', 'purple'],
+};
+
+// What goes on the page: the plain colour, plus a gradient image when there are two
+export const toSceneBackground = (scene: Scene) => ({
+    color: scene.colors[0],
+    gradient: scene.colors.length > 1 ? `linear-gradient(160deg, ${scene.colors.join(', ')})` : 'none',
+});
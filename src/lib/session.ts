@@ -0,0 +1,57 @@
+// Rules for how long a conversation runs and how it winds down.
+// Kept free of React so the timing rules are easy to reason about on their own.
+
+export interface SessionConfig {
+    durationMs: number; // Total conversation length
+    maxTurns: number; // Child replies before the buddy wraps up, whichever comes first
+    wrapUpMs: number; // How close to the end we ask the buddy to start saying goodbye
+    maxSilencePrompts: number; // "Are you still there?" nudges before giving up
+}
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+    durationMs: 2 * 60 * 1000,
+    maxTurns: 8,
+    wrapUpMs: 20 * 1000,
+    maxSilencePrompts: 2,
+};
+
+export type SessionEndReason = 'time' | 'turns' | 'silence' | 'buddy' | 'budget' | 'allowance';
+
+export interface Session {
+    startedAt: number;
+    endedAt?: number;
+    turns: number;
+    silencePrompts: number; // Consecutive nudges since the child last spoke
+    isWrappingUp: boolean; // The goodbye has been asked for; end once it has been spoken
+    endReason?: SessionEndReason;
+    allowanceMs: number | null; // What was left of today's playtime when the chat started; null for no limit
+}
+
+export const createSession = (allowanceMs: number | null = null, now = Date.now()): Session => ({
+    startedAt: now,
+    turns: 0,
+    silencePrompts: 0,
+    isWrappingUp: false,
+    allowanceMs,
+});
+
+// How long after the start the clock says to wrap up, and why. The day's playtime can run out
+// before the chat's own time does.
+export const getTimedWrapUp = (session: Session, config: SessionConfig): { reason: 'time' | 'allowance'; afterMs: number } =>
+    session.allowanceMs !== null && session.allowanceMs < config.durationMs
+        ? { reason: 'allowance', afterMs: session.allowanceMs - config.wrapUpMs }
+        : { reason: 'time', afterMs: config.durationMs - config.wrapUpMs };
+
+// Why the next reply should be the goodbye, or null if there's still time to chat
+export const getWrapUpReason = (session: Session, config: SessionConfig, now = Date.now()): SessionEndReason | null => {
+    const timed = getTimedWrapUp(session, config);
+    if (now - session.startedAt >= timed.afterMs) return timed.reason;
+    if (session.turns >= config.maxTurns) return 'turns';
+    return null;
+};
+
+// Added to the request (not to the visible history) when it's time to finish
+export const WRAP_UP_INSTRUCTION =
+    "Our time is almost up. Reply to the child, then say a warm, happy goodbye. Do not ask any more questions.";
+
+export const getSessionDurationMs = (session: Session) => (session.endedAt ?? Date.now()) - session.startedAt;
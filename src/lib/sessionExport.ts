@@ -0,0 +1,43 @@
+import type { StoredSession } from './sessionStore';
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const sessionTitle = (session: StoredSession) =>
+    `Magic Buddy chat - ${new Date(session.startedAt).toLocaleString()}`;
+
+export const sessionToJSON = (session: StoredSession) => JSON.stringify(session, null, 2);
+
+export const sessionToMarkdown = (session: StoredSession) => {
+    const lines = [
+        `# ${sessionTitle(session)}`,
+        '',
+        `- **Provider:** ${session.providerLabel}${session.isDemoMode ? ' (demo mode)' : ''}`,
+        `- **Started:** ${new Date(session.startedAt).toLocaleString()}`,
+    ];
+    if (session.endedAt) lines.push(`- **Ended:** ${new Date(session.endedAt).toLocaleString()}`);
+    if (session.endReason) lines.push(`- **Ended because:** ${session.endReason}`);
+    lines.push('', `![Picture](${session.thumbnail})`, '', '## Conversation', '');
+
+    for (const turn of session.turns) {
+        const speaker = turn.speaker === 'child' ? 'Child' : 'Buddy';
+        lines.push(`**${speaker}** _(${formatTime(turn.at)})_: ${turn.text}`);
+        for (const call of turn.toolCalls ?? []) {
+            lines.push(`  - 🛠️ \`${call.name}\` ${call.arguments}`);
+        }
+        lines.push('');
+    }
+
+    if (session.interventions?.length) {
+        lines.push('## Safety', '');
+        for (const item of session.interventions) {
+            lines.push(`- _(${formatTime(item.at)})_ ${item.action} ${item.direction === 'child' ? "child's" : "buddy's"} words (${item.kind}): ${item.detail}`);
+        }
+        lines.push('');
+    }
+    return lines.join('\n');
+};
+
+// Plain "Child: ... / Buddy: ..." lines, for asking the model what to remember. Blocked turns are
+// left out, so nothing the safety check stopped ends up in the child's memories.
+export const sessionToTranscript = (session: StoredSession) =>
+    session.turns.filter(turn => !turn.blocked).map(turn => `${turn.speaker === 'child' ? 'Child' : 'Buddy'}: ${turn.text}`).join('\n');
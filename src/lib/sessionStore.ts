@@ -0,0 +1,62 @@
+import type { SafetyIntervention } from './safety';
+import type { TokenUsage } from './provider';
+import type { SessionLesson } from './lessons';
+import type { Storybook } from './storybook';
+import { SESSIONS_STORE, runRequest } from './db';
+
+// Conversation logs kept in IndexedDB so parents can look back at them after a reload.
+
+export interface LoggedToolCall {
+    name: string;
+    arguments: string;
+}
+
+export interface LoggedTurn {
+    speaker: 'child' | 'buddy';
+    text: string;
+    at: number;
+    toolCalls?: LoggedToolCall[];
+    usage?: TokenUsage; // Buddy turns only: every request it took to produce this reply
+    picture?: string; // Child turns only: thumbnail of a new picture shown mid-chat, or of the spot they pointed at
+    blocked?: boolean; // Words the safety check stopped, or the buddy's redirect after them
+}
+
+export interface LoggedIntervention extends SafetyIntervention {
+    at: number;
+}
+
+export interface StoredSession {
+    id: string;
+    startedAt: number;
+    endedAt?: number;
+    endReason?: string;
+    thumbnail: string; // Small data URL of the picture we talked about
+    isDemoMode: boolean;
+    providerLabel: string;
+    turns: LoggedTurn[];
+    interventions?: LoggedIntervention[]; // Missing on sessions saved before the safety layer
+    usage?: TokenUsage; // Whole session, including describing the picture and summaries
+    profileId?: string; // Who was playing; missing for "just playing" and older sessions
+    lesson?: SessionLesson; // The lesson goal and the stars earned, if the chat had one
+    story?: Storybook; // Made after the chat, if the child asked for one
+}
+
+const runSessionRequest = <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>) =>
+    runRequest<T>(SESSIONS_STORE, mode, makeRequest);
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+    await runSessionRequest('readwrite', store => store.put(session));
+};
+
+// Newest first
+export const listSessions = async (): Promise<StoredSession[]> => {
+    const sessions = await runSessionRequest<StoredSession[]>('readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const getSession = (id: string): Promise<StoredSession | undefined> =>
+    runSessionRequest<StoredSession | undefined>('readonly', store => store.get(id));
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await runSessionRequest('readwrite', store => store.delete(id));
+};
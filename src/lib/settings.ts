@@ -0,0 +1,302 @@
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from './openai';
+import { createDemoProvider } from './demo';
+import { createProxyProvider } from './proxy';
+import type { ConversationProvider, ProviderSettings } from './provider';
+import { DEFAULT_SESSION_CONFIG, type SessionConfig } from './session';
+import { DEFAULT_SAFETY_SETTINGS, type SafetySettings } from './safety';
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from './i18n';
+import { DEFAULT_PERSONA_ID, type Persona } from './persona';
+import type { ChildProfile } from './profile';
+import { DEFAULT_COST_SETTINGS, type CostSettings } from './cost';
+import { DEFAULT_IMAGE_OPTIONS, type ImageOptions } from '../utils/image';
+import { parseDemoScript, type DemoScript } from './demoScript';
+import { DEFAULT_SPEECH_SETTINGS, type SpeechSettings } from './speech';
+import { isLessonGoal, type LessonGoal } from './lessons';
+import { DEFAULT_PARENT_SETTINGS, EMPTY_DAILY_USAGE, type DailyUsage, type ParentSettings } from './parental';
+
+const SETTINGS_KEY = 'provider_settings';
+const SESSION_KEY = 'session_settings';
+const SAFETY_KEY = 'safety_settings';
+const LANGUAGE_KEY = 'language';
+const PERSONA_KEY = 'persona';
+const CUSTOM_PERSONAS_KEY = 'custom_personas';
+const PROFILES_KEY = 'child_profiles';
+const PROFILE_KEY = 'child_profile';
+const COST_KEY = 'cost_settings';
+const IMAGE_KEY = 'image_settings';
+const DEMO_SCRIPT_KEY = 'demo_script';
+const SPEECH_KEY = 'speech_settings';
+const LESSON_KEY = 'lesson_goal';
+const PARENT_KEY = 'parent_settings';
+const DAILY_USAGE_KEY = 'daily_usage';
+const LEGACY_KEY_STORAGE = 'openai_api_key'; // Older builds only stored the raw key
+
+// Set at build time when the proxy in server/ is running; it then replaces all provider settings
+export const PROXY_URL = import.meta.env.VITE_PROXY_URL || null;
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    kind: 'openai',
+    apiKey: '',
+    baseURL: 'http://localhost:11434/v1',
+    model: DEFAULT_OPENAI_MODEL,
+};
+
+export const loadProviderSettings = (): ProviderSettings | null => {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) {
+        try {
+            return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) };
+        } catch (e) {
+            console.warn("Ignoring corrupt provider settings", e);
+        }
+    }
+
+    const legacyKey = localStorage.getItem(LEGACY_KEY_STORAGE);
+    if (legacyKey) {
+        return { ...DEFAULT_PROVIDER_SETTINGS, apiKey: legacyKey };
+    }
+    return null;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    localStorage.removeItem(LEGACY_KEY_STORAGE);
+};
+
+export const clearProviderSettings = () => {
+    localStorage.removeItem(SETTINGS_KEY);
+    localStorage.removeItem(LEGACY_KEY_STORAGE);
+};
+
+// Returns the message key for the settings form's error, or null if they look usable
+export const validateProviderSettings = (settings: ProviderSettings): 'invalidOpenAIKey' | 'invalidServerUrl' | 'missingModel' | null => {
+    if (settings.kind === 'openai' && !settings.apiKey.trim().startsWith('sk-')) {
+        return 'invalidOpenAIKey';
+    }
+    if (settings.kind === 'compatible') {
+        try {
+            new URL(settings.baseURL);
+        } catch {
+            return 'invalidServerUrl';
+        }
+        if (!settings.model.trim()) return 'missingModel';
+    }
+    return null;
+};
+
+export const createProvider = (settings: ProviderSettings): ConversationProvider => {
+    switch (settings.kind) {
+        case 'proxy':
+            return createProxyProvider(PROXY_URL ?? settings.baseURL);
+        case 'demo':
+            return createDemoProvider(loadDemoScript());
+        case 'compatible':
+            return createOpenAIProvider({
+                kind: 'compatible',
+                label: `Local (${settings.model})`,
+                // Most local servers ignore the key, but the SDK refuses to run without one
+                apiKey: settings.apiKey.trim() || 'local',
+                baseURL: settings.baseURL.trim(),
+                model: settings.model.trim(),
+            });
+        case 'openai':
+        default:
+            return createOpenAIProvider({
+                kind: 'openai',
+                label: 'OpenAI',
+                apiKey: settings.apiKey.trim(),
+                model: settings.model.trim() || DEFAULT_OPENAI_MODEL,
+            });
+    }
+};
+
+export const loadSessionConfig = (): SessionConfig => {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return DEFAULT_SESSION_CONFIG;
+    try {
+        return { ...DEFAULT_SESSION_CONFIG, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt session settings", e);
+        return DEFAULT_SESSION_CONFIG;
+    }
+};
+
+export const saveSessionConfig = (config: SessionConfig) => {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(config));
+};
+
+export const loadSafetySettings = (): SafetySettings => {
+    const stored = localStorage.getItem(SAFETY_KEY);
+    if (!stored) return DEFAULT_SAFETY_SETTINGS;
+    try {
+        return { ...DEFAULT_SAFETY_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt safety settings", e);
+        return DEFAULT_SAFETY_SETTINGS;
+    }
+};
+
+export const saveSafetySettings = (settings: SafetySettings) => {
+    localStorage.setItem(SAFETY_KEY, JSON.stringify(settings));
+};
+
+// Falls back to the browser's language when it's one we have a catalog for
+export const loadLanguage = (): Language => {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (isLanguage(stored)) return stored;
+    const browser = navigator.language.split('-')[0];
+    return isLanguage(browser) ? browser : DEFAULT_LANGUAGE;
+};
+
+export const saveLanguage = (language: Language) => {
+    localStorage.setItem(LANGUAGE_KEY, language);
+};
+
+export const loadPersonaId = () => localStorage.getItem(PERSONA_KEY) ?? DEFAULT_PERSONA_ID;
+
+export const savePersonaId = (id: string) => {
+    localStorage.setItem(PERSONA_KEY, id);
+};
+
+// Only the parent-made personas are stored; built-in ones always come from the code
+export const loadCustomPersonas = (): Persona[] => {
+    const stored = localStorage.getItem(CUSTOM_PERSONAS_KEY);
+    if (!stored) return [];
+    try {
+        const personas = JSON.parse(stored);
+        return Array.isArray(personas) ? personas : [];
+    } catch (e) {
+        console.warn("Ignoring corrupt custom personas", e);
+        return [];
+    }
+};
+
+export const saveCustomPersonas = (personas: Persona[]) => {
+    localStorage.setItem(CUSTOM_PERSONAS_KEY, JSON.stringify(personas));
+};
+
+export const loadProfiles = (): ChildProfile[] => {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (!stored) return [];
+    try {
+        const profiles = JSON.parse(stored);
+        return Array.isArray(profiles) ? profiles : [];
+    } catch (e) {
+        console.warn("Ignoring corrupt child profiles", e);
+        return [];
+    }
+};
+
+export const saveProfiles = (profiles: ChildProfile[]) => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// Empty means nobody picked a profile ("just playing")
+export const loadProfileId = () => localStorage.getItem(PROFILE_KEY) ?? '';
+
+export const saveProfileId = (id: string) => {
+    localStorage.setItem(PROFILE_KEY, id);
+};
+
+// Null means an open-ended chat with no lesson
+export const loadLessonGoal = (): LessonGoal | null => {
+    const stored = localStorage.getItem(LESSON_KEY);
+    return isLessonGoal(stored) ? stored : null;
+};
+
+export const saveLessonGoal = (goal: LessonGoal | null) => {
+    if (goal) localStorage.setItem(LESSON_KEY, goal);
+    else localStorage.removeItem(LESSON_KEY);
+};
+
+export const loadCostSettings = (): CostSettings => {
+    const stored = localStorage.getItem(COST_KEY);
+    if (!stored) return DEFAULT_COST_SETTINGS;
+    try {
+        return { ...DEFAULT_COST_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt cost settings", e);
+        return DEFAULT_COST_SETTINGS;
+    }
+};
+
+export const saveCostSettings = (settings: CostSettings) => {
+    localStorage.setItem(COST_KEY, JSON.stringify(settings));
+};
+
+export const loadImageOptions = (): ImageOptions => {
+    const stored = localStorage.getItem(IMAGE_KEY);
+    if (!stored) return DEFAULT_IMAGE_OPTIONS;
+    try {
+        return { ...DEFAULT_IMAGE_OPTIONS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt image settings", e);
+        return DEFAULT_IMAGE_OPTIONS;
+    }
+};
+
+export const saveImageOptions = (options: ImageOptions) => {
+    localStorage.setItem(IMAGE_KEY, JSON.stringify(options));
+};
+
+// A parent's own demo script, checked again on load in case it was saved by an older build
+export const loadDemoScript = (): DemoScript | null => {
+    const stored = localStorage.getItem(DEMO_SCRIPT_KEY);
+    if (!stored) return null;
+    try {
+        return parseDemoScript(JSON.parse(stored));
+    } catch (e) {
+        console.warn("Ignoring corrupt demo script", e);
+        return null;
+    }
+};
+
+export const saveDemoScript = (script: DemoScript | null) => {
+    if (script) localStorage.setItem(DEMO_SCRIPT_KEY, JSON.stringify(script));
+    else localStorage.removeItem(DEMO_SCRIPT_KEY);
+};
+
+export const loadSpeechSettings = (): SpeechSettings => {
+    const stored = localStorage.getItem(SPEECH_KEY);
+    if (!stored) return DEFAULT_SPEECH_SETTINGS;
+    try {
+        return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt speech settings", e);
+        return DEFAULT_SPEECH_SETTINGS;
+    }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+    localStorage.setItem(SPEECH_KEY, JSON.stringify(settings));
+};
+
+export const loadParentSettings = (): ParentSettings => {
+    const stored = localStorage.getItem(PARENT_KEY);
+    if (!stored) return DEFAULT_PARENT_SETTINGS;
+    try {
+        return { ...DEFAULT_PARENT_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt parent settings", e);
+        return DEFAULT_PARENT_SETTINGS;
+    }
+};
+
+export const saveParentSettings = (settings: ParentSettings) => {
+    localStorage.setItem(PARENT_KEY, JSON.stringify(settings));
+};
+
+export const loadDailyUsage = (): DailyUsage => {
+    const stored = localStorage.getItem(DAILY_USAGE_KEY);
+    if (!stored) return EMPTY_DAILY_USAGE;
+    try {
+        return { ...EMPTY_DAILY_USAGE, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Ignoring corrupt daily usage", e);
+        return EMPTY_DAILY_USAGE;
+    }
+};
+
+export const saveDailyUsage = (usage: DailyUsage) => {
+    localStorage.setItem(DAILY_USAGE_KEY, JSON.stringify(usage));
+};
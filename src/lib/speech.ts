@@ -0,0 +1,57 @@
+import OpenAI from 'openai';
+import type { ProviderSettings } from './provider';
+
+// Settings shared by the speech engines (see speechToText.ts and textToSpeech.ts).
+// 'auto' uses the browser's built-in speech where it works and the speech server where it doesn't.
+
+export type SpeechEngineMode = 'auto' | 'browser' | 'server';
+
+export interface SpeechSettings {
+    recognition: SpeechEngineMode;
+    synthesis: SpeechEngineMode;
+    baseURL: string; // OpenAI-compatible server with /audio/transcriptions and /audio/speech; empty to use the chat provider's
+    apiKey: string;
+    transcriptionModel: string;
+    speechModel: string;
+    speechVoice: string; // Used when the persona's voice isn't one the server knows
+    bargeIn: boolean; // The child can talk over the buddy to interrupt it; turn off in noisy rooms
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+    recognition: 'auto',
+    synthesis: 'auto',
+    baseURL: '',
+    apiKey: '',
+    transcriptionModel: 'whisper-1',
+    speechModel: 'tts-1',
+    speechVoice: 'nova',
+    bargeIn: true,
+};
+
+// Where the server engines send audio, or null when there's nowhere to send it
+export interface SpeechService {
+    baseURL: string;
+    apiKey: string;
+    transcriptionModel: string;
+    speechModel: string;
+    speechVoice: string;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// A separate speech server wins; otherwise OpenAI or the local server that also does the chat.
+// The proxy and Demo Mode have no audio endpoints, so they stay on the browser's speech.
+export const getSpeechService = (speech: SpeechSettings, provider: ProviderSettings | null): SpeechService | null => {
+    const { baseURL, apiKey, transcriptionModel, speechModel, speechVoice } = speech;
+    const models = { transcriptionModel, speechModel, speechVoice };
+    if (baseURL.trim()) return { baseURL: baseURL.trim(), apiKey: apiKey.trim() || 'local', ...models };
+    if (provider?.kind === 'openai' && provider.apiKey.trim()) return { baseURL: OPENAI_BASE_URL, apiKey: provider.apiKey.trim(), ...models };
+    if (provider?.kind === 'compatible') return { baseURL: provider.baseURL.trim(), apiKey: provider.apiKey.trim() || 'local', ...models };
+    return null;
+};
+
+export const createAudioClient = (service: SpeechService) => new OpenAI({
+    apiKey: service.apiKey,
+    baseURL: service.baseURL,
+    dangerouslyAllowBrowser: true, // Same as the chat provider: the key is already in the browser
+});
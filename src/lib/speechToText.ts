@@ -0,0 +1,240 @@
+import { createAudioClient, type SpeechEngineMode, type SpeechService } from './speech';
+import { createLevelMeter } from '../utils/audio';
+
+// Speech-to-text engines behind one interface, so useSpeech doesn't care which one is listening:
+// - browser: the Web Speech API (Chrome, Edge, Safari)
+// - server: records with MediaRecorder and posts each utterance to an OpenAI-compatible
+//   /audio/transcriptions endpoint (OpenAI's Whisper, or a local whisper server). Works on
+//   Firefox and the Android webviews that have no Web Speech.
+
+export type RecognizerKind = 'browser' | 'server';
+
+// 'microphone-denied' stops any retries; 'engine-failed' means this engine can't work here, try another
+export type RecognizerProblem = 'microphone-denied' | 'engine-failed' | 'transient';
+
+export interface RecognizerHandlers {
+    onStart: () => void;
+    onTranscript: (text: string, isFinal: boolean) => void; // The latest guess at what was said; final once the engine is sure
+    onEnd: () => void; // Done listening, whether or not anything was heard
+    onError: (problem: RecognizerProblem) => void; // Always followed by onEnd
+}
+
+export interface SpeechRecognizer {
+    kind: RecognizerKind;
+    start: (locale: string) => void;
+    stop: () => void; // Finishes the utterance: whatever was heard still arrives before onEnd
+}
+
+// --- Web Speech ---
+
+interface WebSpeechRecognition {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    maxAlternatives: number;
+    onstart: (() => void) | null;
+    onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+    onend: (() => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    start: () => void;
+    stop: () => void;
+}
+
+type WebSpeechConstructor = new () => WebSpeechRecognition;
+
+// Safari and older Chrome only have the prefixed one
+const getWebSpeechConstructor = () => {
+    const speechWindow = window as unknown as { SpeechRecognition?: WebSpeechConstructor; webkitSpeechRecognition?: WebSpeechConstructor };
+    return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+const createWebSpeechRecognizer = (handlers: RecognizerHandlers): SpeechRecognizer | null => {
+    const SpeechRecognitionConstructor = getWebSpeechConstructor();
+    if (!SpeechRecognitionConstructor) return null;
+
+    const recognition = new SpeechRecognitionConstructor();
+    recognition.continuous = false; // Keep false for better compatibility, useSpeech restarts it
+    recognition.interimResults = true;
+    recognition.maxAlternatives = 1;
+
+    recognition.onstart = () => {
+        console.log("Speech recognition started");
+        handlers.onStart();
+    };
+
+    recognition.onresult = (event) => {
+        const last = event.results.length - 1;
+        handlers.onTranscript(event.results[last][0].transcript, event.results[last].isFinal);
+    };
+
+    recognition.onend = () => {
+        console.log("Speech recognition ended");
+        handlers.onEnd();
+    };
+
+    recognition.onerror = (event) => {
+        console.error("Speech recognition error", event.error);
+        // 'network' is Chrome's recognizer failing to reach its servers (offline, or blocked in a webview)
+        if (event.error === 'not-allowed') handlers.onError('microphone-denied');
+        else if (event.error === 'service-not-allowed' || event.error === 'network') handlers.onError('engine-failed');
+        else handlers.onError('transient');
+    };
+
+    return {
+        kind: 'browser',
+        start: (locale) => {
+            recognition.lang = locale;
+            try {
+                recognition.start();
+            } catch (e) {
+                // The API throws if it's already started
+                console.warn("Recognition start called but maybe active", e);
+            }
+        },
+        stop: () => recognition.stop(),
+    };
+};
+
+// --- Recorded audio sent to a transcription endpoint ---
+
+const SPEECH_LEVEL = 0.02; // Louder than this counts as talking
+const END_SILENCE_MS = 1200; // This much quiet after talking ends the utterance
+const NO_SPEECH_TIMEOUT_MS = 8000; // About when the browser recognizer gives up too
+const MAX_UTTERANCE_MS = 20000;
+const CHECK_INTERVAL_MS = 100;
+
+// The endpoint guesses the format from the file name
+const fileExtension = (mimeType: string) =>
+    mimeType.includes('mp4') ? 'mp4' : mimeType.includes('ogg') ? 'ogg' : mimeType.includes('wav') ? 'wav' : 'webm';
+
+const canRecord = () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const createTranscriptionRecognizer = (service: SpeechService, handlers: RecognizerHandlers): SpeechRecognizer | null => {
+    if (!canRecord()) return null;
+    const client = createAudioClient(service);
+    let stopCurrent: (() => void) | null = null;
+
+    const transcribe = async (audio: Blob, locale: string) => {
+        const file = new File([audio], `speech.${fileExtension(audio.type)}`, { type: audio.type });
+        const result = await client.audio.transcriptions.create({
+            file,
+            model: service.transcriptionModel,
+            language: locale.split('-')[0], // Whisper wants ISO-639-1
+        });
+        return result.text.trim();
+    };
+
+    // One utterance: wait for talking, stop after a pause, then send the recording off
+    const listen = (locale: string) => {
+        let stream: MediaStream | null = null;
+        let recorder: MediaRecorder | null = null;
+        let meter: ReturnType<typeof createLevelMeter> | null = null;
+        let timer: ReturnType<typeof setInterval> | undefined;
+        let heardSpeech = false;
+        let isStopping = false;
+        const chunks: Blob[] = [];
+
+        const release = () => {
+            clearInterval(timer);
+            meter?.close();
+            stream?.getTracks().forEach(track => track.stop());
+        };
+
+        const end = () => {
+            stopCurrent = null;
+            handlers.onEnd();
+        };
+
+        const stop = () => {
+            if (isStopping) return;
+            isStopping = true;
+            if (recorder && recorder.state !== 'inactive') {
+                recorder.stop(); // onstop sends the audio
+            } else if (stream) {
+                release();
+                end();
+            }
+            // Still waiting for the microphone: the getUserMedia callback ends it
+        };
+        stopCurrent = stop;
+
+        navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+            .then(s => {
+                stream = s;
+                if (isStopping) {
+                    release();
+                    end();
+                    return;
+                }
+
+                const activeRecorder = new MediaRecorder(s);
+                recorder = activeRecorder;
+                activeRecorder.ondataavailable = (e) => {
+                    if (e.data.size > 0) chunks.push(e.data);
+                };
+                activeRecorder.onstop = async () => {
+                    release();
+                    if (heardSpeech && chunks.length > 0) {
+                        try {
+                            const text = await transcribe(new Blob(chunks, { type: activeRecorder.mimeType }), locale);
+                            if (text) handlers.onTranscript(text, true);
+                        } catch (e) {
+                            console.error("Transcription failed", e);
+                            handlers.onError('transient');
+                        }
+                    }
+                    end();
+                };
+
+                meter = createLevelMeter(s);
+                const startedAt = Date.now();
+                let lastSpeechAt = startedAt;
+                timer = setInterval(() => {
+                    const now = Date.now();
+                    if (meter && meter.read() > SPEECH_LEVEL) {
+                        heardSpeech = true;
+                        lastSpeechAt = now;
+                    }
+                    const isDone = heardSpeech ? now - lastSpeechAt > END_SILENCE_MS : now - startedAt > NO_SPEECH_TIMEOUT_MS;
+                    if (isDone || now - startedAt > MAX_UTTERANCE_MS) stop();
+                }, CHECK_INTERVAL_MS);
+
+                activeRecorder.start(1000); // Collect chunks as we go, so a long utterance isn't one huge buffer at the end
+                handlers.onStart();
+            })
+            .catch(e => {
+                console.error("Couldn't open the microphone", e);
+                isStopping = true;
+                const isDenied = e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError');
+                handlers.onError(isDenied ? 'microphone-denied' : 'engine-failed');
+                end();
+            });
+    };
+
+    return {
+        kind: 'server',
+        start: (locale) => {
+            if (stopCurrent) return; // Already listening
+            listen(locale);
+        },
+        stop: () => stopCurrent?.(),
+    };
+};
+
+// --- Choosing an engine ---
+
+// Whether any engine could listen, without setting one up (and without asking for the microphone).
+// Either mode falls back to the other engine, so it only matters what's there.
+export const canRecognize = (service: SpeechService | null) => !!getWebSpeechConstructor() || (!!service && canRecord());
+
+// The preferred engine for the mode, falling back to the other one. `exclude` skips an engine that already failed.
+export const createRecognizer = (
+    mode: SpeechEngineMode,
+    service: SpeechService | null,
+    handlers: RecognizerHandlers,
+    exclude?: RecognizerKind
+): SpeechRecognizer | null => {
+    const browser = () => (exclude === 'browser' ? null : createWebSpeechRecognizer(handlers));
+    const server = () => (exclude === 'server' || !service ? null : createTranscriptionRecognizer(service, handlers));
+    return mode === 'server' ? server() ?? browser() : browser() ?? server();
+};
@@ -0,0 +1,175 @@
+import type { ChatMessage, StoryDraft } from './provider';
+import { INTERRUPTED_NOTE, isCloseUp, textOf } from './context';
+import { readPointingNote, type Highlight } from './pointing';
+import { runToolCall, type ToolContext } from './tools';
+import { DEFAULT_SCENE, toSceneBackground, type Scene } from './scene';
+
+// After a chat the buddy turns it into a little picture book: a few pages, each with a line of the
+// story, the picture (or the part the buddy circled) and the scene that was behind it at the time.
+
+export const MAX_STORY_PAGES = 6;
+
+// One back-and-forth of the chat: what the child said and how the buddy answered
+export interface StoryMoment {
+    picture: number; // Which picture of the chat it was about, counting the one it started with as 0
+    childSaid: string; // Empty when the buddy spoke first or the child showed a new picture
+    buddySaid: string;
+    scene: Scene; // As it was once the buddy had answered
+    highlight: Highlight | null; // The part of the picture the buddy circled, if it did
+}
+
+export interface StoryPage {
+    text: string;
+    picture: number; // Index into the book's pictures
+    colors: string[]; // The scene's colours at that moment
+}
+
+export interface Storybook {
+    title: string;
+    pictures: string[]; // Data URLs, so the book still opens (and prints) without the original files
+    pages: StoryPage[];
+    createdAt: number;
+}
+
+// Flattened so every line of the transcript stays one line
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Walks the chat the way the App saw it, replaying the buddy's tool calls to know how the scene
+// looked at each moment. The first message is always the picture the chat started with.
+export const collectMoments = (history: ChatMessage[], startScene: Scene = DEFAULT_SCENE): StoryMoment[] => {
+    const moments: StoryMoment[] = [];
+    let scene = startScene;
+    let picture = 0;
+    let current: StoryMoment | null = null;
+
+    // Only the scene and the circled part end up in the book; the other tools leave no trace
+    const recorder: ToolContext = {
+        updateScene: (change) => {
+            scene = { ...scene, ...change };
+        },
+        showSticker: () => {},
+        endConversation: () => {},
+        lookAgain: () => {},
+        awardStar: () => null,
+        highlightRegion: (highlight) => {
+            if (current) current.highlight = highlight;
+        },
+    };
+
+    history.forEach((message, i) => {
+        if (message.role === 'user') {
+            const isPicture = i === 0 || (typeof message.content !== 'string' && !isCloseUp(message));
+            if (isPicture && i > 0) picture++;
+            const childSaid = isPicture ? '' : oneLine(readPointingNote(textOf(message)).text);
+            current = { picture, childSaid, buddySaid: '', scene, highlight: null };
+            moments.push(current);
+            return;
+        }
+        if (message.role !== 'assistant' || !current) return;
+        message.tool_calls?.forEach(call => runToolCall(call, recorder));
+        current.buddySaid = oneLine(`${current.buddySaid} ${message.content.replace(INTERRUPTED_NOTE, '...')}`);
+        current.scene = scene;
+    });
+    return moments.filter(moment => moment.buddySaid);
+};
+
+// What the story writer gets to see: numbered moments, so each page can say which one it goes with
+export const toStoryTranscript = (moments: StoryMoment[]) => moments.map((moment, i) => [
+    `Moment ${i + 1} (picture ${moment.picture + 1})`,
+    ...(moment.childSaid ? [`Child: ${moment.childSaid}`] : []),
+    `Buddy: ${moment.buddySaid}`,
+].join('\n')).join('\n\n');
+
+// The other way round, for the demo's template story
+export const readStoryTranscript = (transcript: string) => {
+    const moments: { childSaid: string; buddySaid: string }[] = [];
+    for (const line of transcript.split('\n')) {
+        if (line.startsWith('Moment ')) moments.push({ childSaid: '', buddySaid: '' });
+        const moment = moments[moments.length - 1];
+        if (!moment) continue;
+        if (line.startsWith('Child: ')) moment.childSaid = line.slice('Child: '.length);
+        if (line.startsWith('Buddy: ')) moment.buddySaid = line.slice('Buddy: '.length);
+    }
+    return moments;
+};
+
+// A draft as the model or the proxy sent it; anything that isn't a usable page is left out
+export const readStoryDraft = (value: unknown): StoryDraft => {
+    const draft = (value ?? {}) as { title?: unknown; pages?: unknown };
+    const pages = Array.isArray(draft.pages) ? draft.pages : [];
+    return {
+        title: typeof draft.title === 'string' ? oneLine(draft.title) : '',
+        pages: pages
+            .filter((page): page is { moment: number; text: string } =>
+                typeof page?.moment === 'number' && Number.isInteger(page.moment) && typeof page.text === 'string' && page.text.trim() !== '')
+            .map(page => ({ moment: page.moment, text: page.text.trim() })),
+    };
+};
+
+// The draft's pages with the moments they belong to, in order. Moments the writer made up are dropped.
+export const matchPages = (draft: StoryDraft, moments: StoryMoment[]) =>
+    draft.pages
+        .filter(page => page.moment >= 1 && page.moment <= moments.length)
+        .sort((a, b) => a.moment - b.moment)
+        .slice(0, MAX_STORY_PAGES)
+        .map(page => ({ text: page.text, moment: moments[page.moment - 1] }));
+
+// --- Printable export ---
+
+export const storybookFileName = (book: Storybook) =>
+    `magic-buddy-story-${new Date(book.createdAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.html`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Only pictures we made ourselves go into the file; anything else could break out of the CSS
+const isPictureData = (url: string) => /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/.test(url);
+
+const PRINT_STYLES = `
+@page { margin: 10mm; }
+body { margin: 0; font-family: 'Fredoka', 'Nunito', 'Comic Sans MS', sans-serif; color: #333333; }
+.page { box-sizing: border-box; min-height: 100vh; padding: 2rem; display: flex; flex-direction: column;
+  align-items: center; justify-content: center; gap: 1.5rem; break-after: page;
+  -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.page:last-child { break-after: auto; }
+h1 { font-size: 2.6rem; text-align: center; margin: 0; }
+.picture { width: 100%; max-width: 640px; aspect-ratio: 4 / 3; background: center / contain no-repeat; border-radius: 16px; }
+.text { max-width: 640px; margin: 0; font-size: 1.6rem; line-height: 1.5; text-align: center; }
+.number { font-size: 0.9rem; opacity: 0.6; }
+@media print { .page { min-height: calc(100vh - 20mm); } }`;
+
+// One HTML file with everything in it, one book page per printed page. Each picture is written
+// once as a CSS class, so a picture used on several pages doesn't make the file any bigger.
+export const storybookToHtml = (book: Storybook, lang: string) => {
+    const pictureStyles = book.pictures
+        .map((url, i) => (isPictureData(url) ? `.picture-${i} { background-image: url("${url}"); }` : ''))
+        .filter(Boolean);
+    const pageStyle = (colors: string[]) => {
+        const safe = colors.filter(color => /^#[0-9a-f]{6}$/i.test(color));
+        const background = toSceneBackground({ ...DEFAULT_SCENE, colors: safe.length > 0 ? safe : DEFAULT_SCENE.colors });
+        return escapeHtml(`background-color: ${background.color}; background-image: ${background.gradient};`);
+    };
+    const cover = book.pages[0];
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(book.title)}</title>
+<style>${PRINT_STYLES}
+${pictureStyles.join('\n')}
+</style>
+</head>
+<body>
+<section class="page" style="${pageStyle(cover?.colors ?? [])}">
+<h1>${escapeHtml(book.title)}</h1>
+${cover ? `<div class="picture picture-${cover.picture}" aria-hidden="true"></div>` : ''}
+</section>
+${book.pages.map((page, i) => `<section class="page" style="${pageStyle(page.colors)}">
+<div class="picture picture-${page.picture}" aria-hidden="true"></div>
+<p class="text">${escapeHtml(page.text)}</p>
+<span class="number">${i + 1}</span>
+</section>`).join('\n')}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,236 @@
+import { createAudioClient, type SpeechEngineMode, type SpeechService } from './speech';
+
+// Text-to-speech engines behind one interface, so useSpeech doesn't care which one is talking:
+// - browser: speechSynthesis with the system voices
+// - server: audio from an OpenAI-compatible /audio/speech endpoint (neural voices, and any
+//   language, even where the device has no voice for it)
+
+// How the buddy sounds (comes from the language and the persona)
+export interface VoiceSettings {
+    locale: string;
+    voiceName: string; // Part of a voice name; empty picks automatically
+    pitch: number;
+    rate: number;
+}
+
+// Called as each word starts, with its position in the text (for read-along captions)
+export type WordHandler = (charIndex: number) => void;
+
+export interface SpeechSynthesizer {
+    // onDone fires once per call, with failed set if nothing could be played
+    speak: (text: string, voice: VoiceSettings, onDone: (failed: boolean) => void, onWord?: WordHandler) => void;
+    cancel: () => void;
+}
+
+// --- Word timing ---
+
+const MS_PER_CHARACTER = 65; // Roughly how fast the voices talk at rate 1
+const WORD_GAP_CHARACTERS = 2; // The pause between words, counted as characters
+
+const estimateDurationMs = (text: string, rate: number) => text.length * MS_PER_CHARACTER / Math.max(0.1, rate);
+
+// Steps through the words on timers, longer words taking longer, for voices that don't report
+// where they are (many Android and network voices, and the server audio). Returns a stop function.
+const estimateWordTimings = (text: string, durationMs: number, onWord: WordHandler) => {
+    const words = [...text.matchAll(/\S+/g)];
+    const weight = words.reduce((sum, word) => sum + word[0].length + WORD_GAP_CHARACTERS, 0);
+    let at = 0;
+    const timers = words.map(word => {
+        const timer = setTimeout(() => onWord(word.index), at);
+        at += durationMs * (word[0].length + WORD_GAP_CHARACTERS) / weight;
+        return timer;
+    });
+    return () => timers.forEach(clearTimeout);
+};
+
+// --- Browser voices ---
+
+const normalizeLang = (lang: string) => lang.replace('_', '-').toLowerCase(); // Android reports en_US
+
+// Voices that can speak the locale: exact match first, then the same language in another region
+export const getVoicesFor = (voices: SpeechSynthesisVoice[], locale: string) => {
+    const target = normalizeLang(locale);
+    const base = target.split('-')[0];
+    const exact = voices.filter(v => normalizeLang(v.lang) === target);
+    const sameLanguage = voices.filter(v => normalizeLang(v.lang) !== target && normalizeLang(v.lang).split('-')[0] === base);
+    return [...exact, ...sameLanguage];
+};
+
+// The persona's named voice if it speaks this language, otherwise the friendlier-sounding female/Google voices.
+// Null lets the browser decide from utterance.lang.
+const pickVoice = (voices: SpeechSynthesisVoice[], { locale, voiceName }: VoiceSettings) => {
+    const candidates = getVoicesFor(voices, locale);
+    const wanted = voiceName.trim().toLowerCase();
+    const named = wanted ? candidates.find(v => v.name.toLowerCase().includes(wanted)) : undefined;
+    const isFriendly = (v: SpeechSynthesisVoice) => v.name.includes('Female') || v.name.includes('Google');
+    return named ?? candidates.find(isFriendly) ?? candidates[0] ?? null;
+};
+
+const hasSpeechSynthesis = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+const createBrowserSynthesizer = (): SpeechSynthesizer | null => {
+    if (!hasSpeechSynthesis()) return null;
+
+    return {
+        speak: (text, voice, onDone, onWord) => {
+            const utterance = new SpeechSynthesisUtterance(text);
+            utterance.lang = voice.locale;
+            // Find a better voice if possible
+            const synthesisVoice = pickVoice(window.speechSynthesis.getVoices(), voice);
+            if (synthesisVoice) utterance.voice = synthesisVoice;
+
+            utterance.pitch = voice.pitch;
+            utterance.rate = voice.rate;
+
+            // Estimated word timings until the voice reports real ones, if it ever does
+            let stopEstimate = () => {};
+            let hasBoundaries = false;
+            if (onWord) {
+                utterance.onstart = () => {
+                    if (!hasBoundaries) stopEstimate = estimateWordTimings(text, estimateDurationMs(text, voice.rate), onWord);
+                };
+                utterance.onboundary = (e) => {
+                    if (e.name !== 'word') return;
+                    if (!hasBoundaries) stopEstimate();
+                    hasBoundaries = true;
+                    onWord(e.charIndex);
+                };
+            }
+
+            // Safety timeout in case onend never fires (common browser bug)
+            const contentDuration = Math.max(2000, text.split(' ').length * 500); // Est: 0.5s per word, min 2s
+            const safetyTimer = setTimeout(() => {
+                if (window.speechSynthesis.speaking) {
+                    console.warn("Speech timed out, forcing next state");
+                    stopEstimate();
+                    window.speechSynthesis.cancel();
+                    onDone(false);
+                }
+            }, contentDuration + 2000); // Give it 2s buffer
+
+            utterance.onend = () => {
+                clearTimeout(safetyTimer);
+                stopEstimate();
+                onDone(false);
+            };
+            utterance.onerror = (e) => {
+                clearTimeout(safetyTimer);
+                stopEstimate();
+                console.error("Speech synthesis error", e);
+                // Being cut off isn't a failure; anything else lets another engine have a go
+                onDone(e.error !== 'interrupted' && e.error !== 'canceled');
+            };
+
+            window.speechSynthesis.speak(utterance);
+        },
+        cancel: () => window.speechSynthesis.cancel(),
+    };
+};
+
+// --- Server voices ---
+
+// The voices OpenAI's /audio/speech knows; a persona can name one of these instead of a browser voice
+export const SERVER_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer', 'verse'];
+
+const createServerSynthesizer = (service: SpeechService): SpeechSynthesizer => {
+    const client = createAudioClient(service);
+    // Only one sentence plays at a time; cancelling aborts the download and stops the audio
+    let current: { controller: AbortController; audio?: HTMLAudioElement; url?: string; stopWords?: () => void } | null = null;
+
+    const stopCurrent = () => {
+        if (!current) return;
+        current.controller.abort();
+        current.stopWords?.();
+        current.audio?.pause();
+        if (current.url) URL.revokeObjectURL(current.url);
+        current = null;
+    };
+
+    return {
+        speak: (text, voice, onDone, onWord) => {
+            stopCurrent();
+            const playback: NonNullable<typeof current> = { controller: new AbortController() };
+            current = playback;
+            const finish = (failed: boolean) => {
+                if (current !== playback) return; // Cancelled meanwhile
+                stopCurrent();
+                onDone(failed);
+            };
+
+            const wanted = voice.voiceName.trim().toLowerCase();
+            client.audio.speech.create({
+                model: service.speechModel,
+                voice: SERVER_VOICES.includes(wanted) ? wanted : service.speechVoice,
+                input: text,
+                speed: Math.min(4, Math.max(0.25, voice.rate)), // No pitch control here
+                response_format: 'mp3',
+            }, { signal: playback.controller.signal })
+                .then(response => response.blob())
+                .then(blob => {
+                    if (current !== playback) return;
+                    playback.url = URL.createObjectURL(blob);
+                    playback.audio = new Audio(playback.url);
+                    playback.audio.onended = () => finish(false);
+                    playback.audio.onerror = () => finish(true);
+                    // The audio says nothing about words, but it does know how long it is
+                    if (onWord) {
+                        const audio = playback.audio;
+                        audio.onplaying = () => {
+                            playback.stopWords?.();
+                            const durationMs = Number.isFinite(audio.duration) ? audio.duration * 1000 : estimateDurationMs(text, voice.rate);
+                            playback.stopWords = estimateWordTimings(text, durationMs, onWord);
+                        };
+                    }
+                    return playback.audio.play();
+                })
+                .catch(e => {
+                    if (current !== playback) return;
+                    console.error("Speech audio failed", e);
+                    finish(true);
+                });
+        },
+        cancel: stopCurrent,
+    };
+};
+
+// --- Choosing an engine ---
+
+// Picks an engine per sentence: 'auto' prefers the browser unless it has no voice for the language.
+// A sentence that fails on one engine is retried on the other, so the buddy never goes quiet.
+export const createSynthesizer = (mode: SpeechEngineMode, service: SpeechService | null): SpeechSynthesizer => {
+    const browser = createBrowserSynthesizer();
+    const server = service ? createServerSynthesizer(service) : null;
+    let generation = 0; // Bumped on cancel, so a failure that comes in late doesn't start the fallback
+
+    const preferred = (voice: VoiceSettings) => {
+        if (mode === 'server') return server ?? browser;
+        if (mode === 'browser' || !server) return browser ?? server;
+        // Voices load lazily; an empty list means we can't tell yet, so let the browser try
+        const voices = browser ? window.speechSynthesis.getVoices() : [];
+        return browser && (voices.length === 0 || getVoicesFor(voices, voice.locale).length > 0) ? browser : server;
+    };
+
+    return {
+        speak: (text, voice, onDone, onWord) => {
+            const engine = preferred(voice);
+            if (!engine) {
+                onDone(true);
+                return;
+            }
+            const started = generation;
+            engine.speak(text, voice, failed => {
+                const fallback = engine === browser ? server : browser;
+                if (!failed || !fallback || generation !== started) {
+                    onDone(failed);
+                    return;
+                }
+                fallback.speak(text, voice, onDone, onWord);
+            }, onWord);
+        },
+        cancel: () => {
+            generation++;
+            browser?.cancel();
+            server?.cancel();
+        },
+    };
+};
@@ -0,0 +1,234 @@
+import type { ChatMessage, ToolCallRequest } from './provider';
+import { HIGHLIGHT_SHAPES, clampRegion, isHighlightShape, type Highlight } from './pointing';
+import { MOODS, MOOD_COLORS, PALETTE_NAMES, WEATHERS, isMood, isWeather, toSafeColor, type Scene } from './scene';
+
+// Everything a tool is allowed to do to the app. App.tsx supplies the real implementations.
+export interface ToolContext {
+    updateScene: (change: Partial<Scene>) => void;
+    showSticker: (emoji: string) => void;
+    endConversation: () => void;
+    lookAgain: () => void;
+    // Returns how many stars the child has this chat, or null if no star can be given (no lesson, or too many)
+    awardStar: (skill: string) => number | null;
+    highlightRegion: (highlight: Highlight) => void;
+}
+
+export type ToolArgs = Record<string, unknown>;
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: Record<string, { type: string; description: string; enum?: string[] }>;
+        required: string[];
+    };
+    // Returns a problem description for the model, or null if the arguments are usable
+    validate: (args: ToolArgs) => string | null;
+    // Acts on the app and returns the result the model gets to see
+    handler: (args: ToolArgs, context: ToolContext) => string;
+}
+
+const STICKERS: Record<string, string> = {
+    star: '⭐',
+    heart: '❤️',
+    rainbow: '🌈',
+    sun: '☀️',
+    rocket: '🚀',
+    balloon: '🎈',
+    party: '🎉',
+    flower: '🌸',
+};
+
+const requireString = (args: ToolArgs, key: string): string | null =>
+    typeof args[key] === 'string' && (args[key] as string).trim() ? null : `'${key}' must be a non-empty string`;
+
+const requireFraction = (args: ToolArgs, key: string): string | null =>
+    typeof args[key] === 'number' && args[key] >= 0 && args[key] <= 1 ? null : `'${key}' must be a number from 0 to 1`;
+
+const unknownColor = (color: string) => `'${color}' isn't a colour; try one of: ${PALETTE_NAMES.join(', ')}`;
+
+// set_scene takes one colour or two, comma-separated
+const splitColors = (text: string) => text.split(',').map(color => color.trim()).filter(Boolean);
+
+export const TOOLS: ToolDefinition[] = [
+    {
+        name: 'change_background',
+        description: 'Change the background color of the app.',
+        parameters: {
+            type: 'object',
+            properties: {
+                color: { type: 'string', description: `A colour name (${PALETTE_NAMES.join(', ')}) or any CSS colour; it is softened to the nearest of those.` }
+            },
+            required: ['color']
+        },
+        validate: (args) => requireString(args, 'color') ?? (toSafeColor(String(args.color)) ? null : unknownColor(String(args.color))),
+        handler: (args, context) => {
+            const safe = toSafeColor(String(args.color));
+            if (!safe) return `Error: ${unknownColor(String(args.color))}.`;
+            context.updateScene({ colors: [safe.color] });
+            return `Background changed to ${safe.name}.`;
+        }
+    },
+    {
+        name: 'set_scene',
+        description: 'Set the whole scene behind the picture: a colour or gradient, weather, and a mood. Use it when the story moves somewhere new, like under the sea or into the night sky.',
+        parameters: {
+            type: 'object',
+            properties: {
+                colors: { type: 'string', description: `One colour, or two separated by a comma for a gradient, e.g. 'blue, purple'. Names: ${PALETTE_NAMES.join(', ')}.` },
+                weather: { type: 'string', description: 'What falls or floats across the scene.', enum: [...WEATHERS] },
+                mood: { type: 'string', description: "How the scene feels. Without colours, the mood picks them.", enum: [...MOODS] }
+            },
+            required: []
+        },
+        validate: (args) => {
+            if (args.colors === undefined && args.weather === undefined && args.mood === undefined) return "give at least one of 'colors', 'weather' or 'mood'";
+            if (args.colors !== undefined) {
+                const problem = requireString(args, 'colors');
+                if (problem) return problem;
+                const colors = splitColors(String(args.colors));
+                if (colors.length > 2) return "'colors' takes one or two colours";
+                const unknown = colors.find(color => !toSafeColor(color));
+                if (unknown) return unknownColor(unknown);
+            }
+            if (args.weather !== undefined && !isWeather(args.weather)) return `'weather' must be one of: ${WEATHERS.join(', ')}`;
+            if (args.mood !== undefined && !isMood(args.mood)) return `'mood' must be one of: ${MOODS.join(', ')}`;
+            return null;
+        },
+        handler: (args, context) => {
+            const change: Partial<Scene> = {};
+            const colorNames = args.colors !== undefined ? splitColors(String(args.colors)) : isMood(args.mood) ? MOOD_COLORS[args.mood] : [];
+            const safeColors = colorNames.flatMap(color => toSafeColor(color) ?? []);
+            if (safeColors.length > 0) change.colors = safeColors.map(safe => safe.color);
+            if (isWeather(args.weather)) change.weather = args.weather;
+            if (isMood(args.mood)) change.mood = args.mood;
+            context.updateScene(change);
+
+            const described = [
+                safeColors.length > 0 && `colours ${safeColors.map(safe => safe.name).join(' to ')}`,
+                change.weather && `weather ${change.weather}`,
+                change.mood && `mood ${change.mood}`,
+            ].filter(Boolean);
+            return `Scene set: ${described.join(', ')}.`;
+        }
+    },
+    {
+        name: 'show_sticker',
+        description: 'Pop a fun sticker onto the picture to celebrate something the child said.',
+        parameters: {
+            type: 'object',
+            properties: {
+                sticker: { type: 'string', description: 'Which sticker to show.', enum: Object.keys(STICKERS) }
+            },
+            required: ['sticker']
+        },
+        validate: (args) => {
+            const problem = requireString(args, 'sticker');
+            if (problem) return problem;
+            return STICKERS[String(args.sticker)] ? null : `'sticker' must be one of: ${Object.keys(STICKERS).join(', ')}`;
+        },
+        handler: (args, context) => {
+            context.showSticker(STICKERS[String(args.sticker)]);
+            return `Showing the ${args.sticker} sticker.`;
+        }
+    },
+    {
+        name: 'end_conversation',
+        description: 'End the chat when the child says goodbye or wants to stop playing. Say goodbye in the same reply.',
+        parameters: {
+            type: 'object',
+            properties: {},
+            required: []
+        },
+        validate: () => null,
+        handler: (_args, context) => {
+            context.endConversation();
+            return 'The conversation will end after your goodbye.';
+        }
+    },
+    {
+        name: 'look_at_picture_again',
+        description: "See the picture itself again, when the child asks about a detail the description doesn't mention.",
+        parameters: {
+            type: 'object',
+            properties: {},
+            required: []
+        },
+        validate: () => null,
+        handler: (_args, context) => {
+            context.lookAgain();
+            return 'The picture is attached to your next request.';
+        }
+    },
+    {
+        name: 'award_star',
+        description: "During a lesson, give the child a star for a right answer.",
+        parameters: {
+            type: 'object',
+            properties: {
+                skill: { type: 'string', description: "What the child got right, in a few English words, e.g. 'counted 5 spikes'." }
+            },
+            required: ['skill']
+        },
+        validate: (args) => requireString(args, 'skill'),
+        handler: (args, context) => {
+            const stars = context.awardStar(String(args.skill).trim());
+            return stars === null
+                ? 'No star this time: stars are only for right answers during a lesson.'
+                : `Star awarded! The child has ${stars} ${stars === 1 ? 'star' : 'stars'} in this chat.`;
+        }
+    },
+    {
+        name: 'highlight_region',
+        description: "Draw a circle or a box on the picture around the part you're talking about, e.g. while saying 'See his long tail right here?'.",
+        parameters: {
+            type: 'object',
+            properties: {
+                x: { type: 'number', description: "Left edge, from 0 (the picture's left) to 1 (its right)." },
+                y: { type: 'number', description: "Top edge, from 0 (the picture's top) to 1 (its bottom)." },
+                width: { type: 'number', description: 'Width, as a fraction of the picture (0 to 1).' },
+                height: { type: 'number', description: 'Height, as a fraction of the picture (0 to 1).' },
+                shape: { type: 'string', description: 'Circle (the default) or box.', enum: [...HIGHLIGHT_SHAPES] }
+            },
+            required: ['x', 'y', 'width', 'height']
+        },
+        validate: (args) => {
+            const problem = ['x', 'y', 'width', 'height'].map(key => requireFraction(args, key)).find(Boolean);
+            if (problem) return problem;
+            if (args.width === 0 || args.height === 0) return "'width' and 'height' must be more than 0";
+            return args.shape === undefined || isHighlightShape(args.shape) ? null : `'shape' must be one of: ${HIGHLIGHT_SHAPES.join(', ')}`;
+        },
+        handler: (args, context) => {
+            const region = clampRegion({ x: Number(args.x), y: Number(args.y), width: Number(args.width), height: Number(args.height) });
+            context.highlightRegion({ ...region, shape: isHighlightShape(args.shape) ? args.shape : 'circle' });
+            return 'That part of the picture is highlighted while you talk.';
+        }
+    },
+];
+
+// The schema list providers send to the model
+export const toolSchemas = () => TOOLS.map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+// Runs one tool call and returns the `tool` message to append to history.
+// Bad calls are reported back to the model rather than thrown, so the conversation keeps going.
+export const runToolCall = (call: ToolCallRequest, context: ToolContext): ChatMessage => {
+    const reply = (content: string): ChatMessage => ({ role: 'tool', tool_call_id: call.id, content });
+
+    const tool = TOOLS.find(t => t.name === call.function.name);
+    if (!tool) return reply(`Error: there is no tool called '${call.function.name}'.`);
+
+    let args: ToolArgs;
+    try {
+        args = JSON.parse(call.function.arguments || '{}');
+    } catch (e) {
+        console.error("Failed to parse tool args", e);
+        return reply('Error: the arguments were not valid JSON.');
+    }
+
+    if (!args || typeof args !== 'object' || Array.isArray(args)) return reply('Error: the arguments must be an object.');
+    const problem = tool.validate(args);
+    if (problem) return reply(`Error: ${problem}.`);
+
+    return reply(tool.handler(args, context));
+};
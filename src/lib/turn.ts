@@ -0,0 +1,48 @@
+import type { ChatMessage, ProviderReply, TokenUsage, ToolCallRequest } from './provider';
+import { EMPTY_USAGE, addUsage } from './cost';
+
+// The part of a buddy turn that's the same in the App and the simulator: every tool call gets run
+// and its result goes into history, and a reply with only tool calls and nothing to say is asked
+// again (with the results) so the child always hears something.
+
+export const MAX_TOOL_FOLLOW_UPS = 2; // Extra completions allowed when the model answers with only tool calls
+
+export interface TurnLoopOptions {
+    runTool: (call: ToolCallRequest) => ChatMessage;
+    askAgain: (history: ChatMessage[]) => Promise<ProviderReply>;
+    onReply?: (reply: ProviderReply) => void; // Each completion as it comes in, the first one included
+    signal?: AbortSignal; // Once aborted, the loop stops asking and resolves with null
+}
+
+export interface TurnLoopResult {
+    reply: ProviderReply; // The last one, whose text is what the buddy ended up saying
+    history: ChatMessage[]; // The history it started from, with the turn's messages added
+    toolCalls: ToolCallRequest[];
+    usage: TokenUsage;
+}
+
+export const runTurnLoop = async (
+    first: ProviderReply,
+    history: ChatMessage[],
+    { runTool, askAgain, onReply, signal }: TurnLoopOptions
+): Promise<TurnLoopResult | null> => {
+    let reply = first;
+    let turnHistory = history;
+    const toolCalls: ToolCallRequest[] = [];
+    let usage = EMPTY_USAGE;
+    for (let round = 0; ; round++) {
+        toolCalls.push(...reply.toolCalls);
+        if (reply.usage) usage = addUsage(usage, reply.usage);
+        onReply?.(reply);
+
+        const assistantMessage: ChatMessage = reply.toolCalls.length > 0
+            ? { role: 'assistant', content: reply.text, tool_calls: reply.toolCalls }
+            : { role: 'assistant', content: reply.text };
+        turnHistory = [...turnHistory, assistantMessage, ...reply.toolCalls.map(runTool)];
+
+        if (reply.text.trim() || reply.toolCalls.length === 0 || round >= MAX_TOOL_FOLLOW_UPS) break;
+        reply = await askAgain(turnHistory);
+        if (signal?.aborted) return null;
+    }
+    return { reply, history: turnHistory, toolCalls, usage };
+};
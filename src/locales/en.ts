@@ -0,0 +1,276 @@
+// English UI strings and the buddy's fixed lines. Other catalogs must have the same shape.
+const en = {
+    appTitle: '✨ Magic Buddy ✨',
+    language: 'Language',
+
+    // Provider setup
+    providerOpenAI: 'OpenAI',
+    providerLocal: 'Local server',
+    providerDemo: 'Demo',
+    serverUrlPlaceholder: 'Server URL (http://localhost:11434/v1)',
+    modelPlaceholder: 'Model (e.g. llava)',
+    openAIKeyPlaceholder: 'Enter OpenAI API Key (sk-...)',
+    optionalKeyPlaceholder: 'API Key (optional)',
+    save: 'Save',
+    changeProvider: (label: string) => `Change Provider (${label})`,
+    invalidOpenAIKey: 'Please enter a valid OpenAI API Key starting with sk-',
+    invalidServerUrl: 'Please enter the full server URL, e.g. http://localhost:11434/v1',
+    missingModel: 'Please enter the model name your server uses',
+    loadDemoScript: 'Load Demo Script (JSON)',
+    demoScriptLoaded: (name: string) => `Demo Script: ${name}`,
+    useBuiltInScripts: 'Use the built-in scripts',
+    demoScriptInvalid: (problem: string) => `That demo script can't be used: ${problem}`,
+    speechUnsupported: "Your browser doesn't support Speech Recognition. Please use Chrome, Edge, or Safari.",
+
+    // Start screen and conversation
+    imageAlt: 'Conversation Topic',
+    startAdventure: 'Start Adventure!',
+    askGrownUp: 'Ask a grown-up to set me up!',
+    outOfPlaytime: "That's all the playtime for today. See you tomorrow!",
+    changeImage: 'Change Image',
+    lookingClosely: 'Looking closely...',
+    readyToPlay: 'Ready to play?',
+    youSaid: (text: string) => `You: ${text}`,
+    typeInstead: "Or type here if mic isn't working...",
+
+    // End of session
+    endReasons: {
+        time: 'Our playtime is all done!',
+        turns: 'What a lot of chatting we did!',
+        silence: 'It got quiet, so we said goodbye.',
+        buddy: 'We said goodbye.',
+        budget: "That's all the chatting for this time!",
+        allowance: "That's all the playtime for today!",
+    },
+    talkedFor: (duration: string) => `We talked for ${duration}`,
+    toldMeThings: (count: number) => `You told me ${count} ${count === 1 ? 'thing' : 'things'}`,
+    starsEarned: (count: number) => `You earned ${count} ${count === 1 ? 'star' : 'stars'}`,
+    duration: (minutes: number, seconds: number) => minutes > 0 ? `${minutes} min ${seconds} sec` : `${seconds} sec`,
+    playAgain: 'Play Again',
+
+    // Storybook
+    makeStory: 'Make our story',
+    makingStory: 'Writing our story...',
+    readStory: 'Read our story',
+    storyFailed: "Hmm, the story got stuck. Let's try again!",
+    readToMe: 'Read to me',
+    stopReading: 'Stop',
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
+    pageOf: (page: number, total: number) => `Page ${page} of ${total}`,
+    printStory: 'Save for printing',
+    storyPictureAlt: 'A picture from our story',
+    storybook: 'Storybook',
+    // Demo Mode's story, made from what the child said
+    storyTemplate: {
+        title: (name: string | null) => (name ? `${name}'s Picture Adventure` : 'Our Picture Adventure'),
+        hero: 'our little explorer',
+        opening: (hero: string) => `Once upon a time, ${hero} found a wonderful picture and made a new friend.`,
+        idea: (hero: string, said: string) => `${hero} said, "${said}"`,
+        wonder: (hero: string) => `Then ${hero} looked closer and wondered what would happen next.`,
+        ending: (hero: string) => `When the adventure was over, ${hero} waved goodbye. The end!`,
+    },
+
+    // Errors
+    errorTitle: 'Ouch! A Booboo Occurred.',
+    errorFallback: 'Something went wrong with the magic connection.',
+    tryAgain: 'Try Again',
+    tryDemoInstead: 'Or try disconnected Demo Mode',
+    changeApiKey: '(Change My API Key)',
+    keepPlayingInDemo: 'Keep playing with the practice buddy',
+    errorDetails: 'Details for grown-ups',
+    // What went wrong, said so a child gets it; the technical part goes under errorDetails
+    providerErrors: {
+        invalidKey: "My magic key doesn't work. Can a grown-up help me?",
+        sessionExpired: "Oh! I lost track of our chat. Let's start a fresh one with this picture!",
+        rateLimit: "Lots of friends are talking to me right now! Let's try again in a little bit.",
+        network: "I can't reach my magic right now. Is the internet on?",
+        timeout: 'I was thinking so hard that I fell asleep! Shall we try again?',
+        server: "My magic machine is taking a nap. Let's try again soon!",
+        refusal: "Hmm, I can't talk about that one. Let's pick something else!",
+        unknown: 'Something went wrong with the magic connection.',
+    },
+
+    // Picture problems (shown to the child)
+    imageErrors: {
+        unsupported: "Oops! I can't open that kind of file. Try a photo or a drawing!",
+        tooLarge: 'Whoa, that picture is too big for me! Can you try a smaller one?',
+        unreadable: 'Hmm, that picture looks a bit broken. Can you try another one?',
+    },
+
+    // Picture picker and camera
+    pictureGallery: 'Pick a Picture',
+    bundledPictures: 'Pictures to explore',
+    recentPictures: 'Your pictures',
+    noRecentPictures: 'Pictures you upload or snap show up here.',
+    galleryPictureAlt: 'A picture to pick',
+    uploadPicture: 'Upload',
+    takePhoto: 'Take a Photo',
+    snap: 'Snap!',
+    retake: 'Retake',
+    usePhoto: 'Use This Photo',
+    cameraError: "I can't see through the camera. Ask a grown-up to allow it!",
+    newPicture: 'Show a New Picture',
+    tapToPoint: 'Tap the picture to show me something',
+    pointedHere: "👉 Tell me what's there!",
+    newPictureTurn: '(showed a new picture)',
+    removePicture: 'Remove',
+    removePictureFailed: "I couldn't take that picture away. Let's try again!",
+
+    // Past Chats (parents)
+    pastChats: 'Past Chats',
+    chatTitle: (date: string) => `Chat from ${date}`,
+    back: 'Back to list',
+    close: 'Close',
+    loading: 'Loading...',
+    loadFailed: "Couldn't open the saved chats in this browser.",
+    deleteFailed: "Couldn't delete this chat. Please try again.",
+    noChats: "No chats yet. They'll show up here after the first adventure.",
+    repliesFromChild: (count: number) => `${count} ${count === 1 ? 'reply' : 'replies'} from your child`,
+    demoBadge: 'Demo',
+    replay: 'Replay',
+    delete: 'Delete',
+    confirmDelete: 'Delete this chat for good?',
+    chatImageAlt: 'The picture from this chat',
+    childLabel: 'Child',
+    buddyLabel: 'Buddy',
+    safety: 'Safety',
+    intervention: (blocked: boolean, byChild: boolean, kind: string, detail: string) =>
+        `${blocked ? 'Blocked' : 'Removed'} ${byChild ? "your child's" : "the buddy's"} words (${kind}): ${detail}`,
+
+    // Buddy personas
+    buddyButton: (name: string) => `Buddy: ${name}`,
+    chooseBuddy: 'Choose a Buddy',
+    newBuddy: 'New Buddy',
+    editBuddy: 'Edit Buddy',
+    edit: 'Edit',
+    useBuddy: 'Use',
+    inUse: 'In use',
+    preview: 'Preview',
+    builtInBadge: 'Built-in',
+    personaPreview: (name: string) => `Hi! I'm ${name}. Let's look at a picture together!`,
+    personaName: 'Name',
+    personaAvatar: 'Avatar (an emoji)',
+    personaPersonality: 'Personality',
+    personaGreeting: 'How they say hello',
+    personaVoice: 'Voice (name or part of it)',
+    automaticVoice: 'Automatic',
+    personaPitch: 'Pitch',
+    personaRate: 'Speed',
+    cancel: 'Cancel',
+    confirmDeleteBuddy: 'Delete this buddy?',
+
+    // Child profiles
+    whosPlaying: "Who's playing?",
+    justPlaying: 'Just playing',
+    manageProfiles: 'Profiles',
+    childProfiles: 'Child Profiles',
+    addChild: 'Add a Child',
+    editChild: 'Edit Child',
+    childName: 'Name',
+    childAge: 'Age',
+    childInterests: 'Interests (separated by commas)',
+    noProfiles: "No profiles yet. Add one so the buddy can use your child's name and remember what they share.",
+    profileSummary: (age: number, memories: number) => `Age ${age} · ${memories} ${memories === 1 ? 'memory' : 'memories'}`,
+    memoriesTitle: 'What the buddy remembers',
+    noMemories: 'Nothing yet. After a chat, the buddy keeps a few things your child shared, like a favourite colour.',
+    forget: 'Forget',
+    confirmDeleteChild: 'Delete this profile and everything the buddy remembers about this child?',
+
+    // Grown-ups: the gate and the settings
+    grownUps: 'Grown-ups',
+    parentGateTitle: 'For grown-ups',
+    parentGateMath: (a: number, b: number) => `What is ${a} × ${b}?`,
+    parentGatePin: 'Enter your PIN',
+    parentGateWrong: "That's not it. Try again.",
+    parentGatePinUnavailable: "This browser can't check the PIN here, so answer the sum instead.",
+    unlock: 'Unlock',
+    parentSettings: 'Settings',
+    settingsProvider: 'AI provider',
+    settingsBuddy: 'Buddy, language and children',
+    settingsChat: 'Each chat',
+    chatMinutes: 'Minutes per chat',
+    chatTurns: 'Answers per chat',
+    blockedTopics: 'Steer away from',
+    safetyTopics: {
+        violence: 'Violence',
+        adult: 'Grown-up topics',
+        'self-harm': 'Self-harm',
+        unkind: 'Unkind words',
+    },
+    extraBlockedWords: 'More words to block (separated by commas)',
+    redactPersonalInfo: 'Hide personal details like phone numbers',
+    useModeration: "Also use the provider's moderation check",
+    settingsAllowance: 'Daily playtime',
+    dailyLimit: 'Minutes per day (empty for no limit)',
+    playedToday: (duration: string) => `Played today: ${duration}`,
+    unlockToday: 'Unlock for the rest of today',
+    unlockedToday: 'Unlocked for today',
+    settingsSpeech: 'Speech',
+    listeningEngine: 'Listening',
+    talkingEngine: 'Talking',
+    engineModes: {
+        auto: 'Automatic',
+        browser: 'Browser',
+        server: 'Speech server',
+    },
+    bargeIn: 'Let the child interrupt the buddy',
+    settingsPictures: 'Pictures',
+    childCanPickPictures: 'Let the child change the picture',
+    settingsPin: 'PIN',
+    pinInUse: 'A PIN protects these settings.',
+    pinNotSet: 'A sum protects these settings. Set a PIN if your child can already do sums like that.',
+    newPin: 'New PIN (4-8 digits)',
+    setPin: 'Set PIN',
+    removePin: 'Use a sum instead',
+    invalidPin: 'Use 4 to 8 digits.',
+    pinUnavailable: "This browser can't keep a PIN on this connection. Open the app over https or on localhost.",
+
+    // Lessons
+    whatToPractise: 'Practise',
+    noLesson: 'Just chatting',
+    lessonGoals: {
+        counting: 'Counting',
+        colours: 'Colours',
+        shapes: 'Shapes',
+        rhyming: 'Rhyming',
+    },
+    starCount: (count: number) => `${count} ${count === 1 ? 'star' : 'stars'}`,
+    progressTitle: 'Progress',
+    noProgress: 'No lessons yet. Pick something to practise before starting a chat.',
+    progressSummary: (sessions: number, stars: number) => `${sessions} ${sessions === 1 ? 'lesson' : 'lessons'} · ${stars} ⭐`,
+    lastPractised: (date: string) => `Last practised ${date}`,
+
+    // Costs (parents)
+    costs: 'Costs',
+    costToday: 'Today',
+    costAllChats: 'All saved chats',
+    tokenCount: (prompt: number, completion: number) => `${prompt.toLocaleString()} in · ${completion.toLocaleString()} out tokens`,
+    inputPrice: 'Price per 1M input tokens ($)',
+    outputPrice: 'Price per 1M output tokens ($)',
+    sessionCap: 'End a chat once it costs ($, empty for no limit)',
+    costNote: 'Estimated from the token counts the provider reports. Demo Mode is free.',
+
+    // Lines the buddy says that don't come from the model
+    fallbackReply: "That's interesting! Tell me more.",
+    // While a reply is being asked for again
+    thinkingFillers: [
+        'Hmm, let me think...',
+        'Ooh, give me a second...',
+        'Wait, my thinking cap slipped! One moment...',
+    ],
+    silencePrompts: [
+        'Are you still there?',
+        "Hello? I'd love to hear what you think!",
+        'Take your time! What do you see in the picture?',
+    ],
+    silenceGoodbye: "It looks like you're busy. That's okay! Let's play again soon. Bye bye!",
+    wrapUpGoodbye: 'That was so much fun! Thanks for playing with me. Bye bye!',
+    redirectReplies: [
+        "Hmm, let's talk about something else! What's your favorite thing in the picture?",
+        'Ooh, I have a better idea! Can you tell me what colors you see?',
+        "Let's go on a different adventure! What do you think happens next in the picture?",
+    ],
+};
+
+export default en;
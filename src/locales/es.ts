@@ -0,0 +1,260 @@
+import type { Messages } from '../lib/i18n';
+
+const es: Messages = {
+    appTitle: '✨ Amigo Mágico ✨',
+    language: 'Idioma',
+
+    providerOpenAI: 'OpenAI',
+    providerLocal: 'Servidor local',
+    providerDemo: 'Demo',
+    serverUrlPlaceholder: 'URL del servidor (http://localhost:11434/v1)',
+    modelPlaceholder: 'Modelo (p. ej. llava)',
+    openAIKeyPlaceholder: 'Clave de API de OpenAI (sk-...)',
+    optionalKeyPlaceholder: 'Clave de API (opcional)',
+    save: 'Guardar',
+    changeProvider: (label: string) => `Cambiar proveedor (${label})`,
+    invalidOpenAIKey: 'Introduce una clave de API de OpenAI válida que empiece por sk-',
+    invalidServerUrl: 'Introduce la URL completa del servidor, p. ej. http://localhost:11434/v1',
+    missingModel: 'Introduce el nombre del modelo que usa tu servidor',
+    loadDemoScript: 'Cargar guion de demo (JSON)',
+    demoScriptLoaded: (name: string) => `Guion de demo: ${name}`,
+    useBuiltInScripts: 'Usar los guiones incluidos',
+    demoScriptInvalid: (problem: string) => `No se puede usar ese guion de demo: ${problem}`,
+    speechUnsupported: 'Tu navegador no admite el reconocimiento de voz. Usa Chrome, Edge o Safari.',
+
+    imageAlt: 'Tema de conversación',
+    startAdventure: '¡Empieza la aventura!',
+    askGrownUp: '¡Pídele a un adulto que me prepare!',
+    outOfPlaytime: 'Se acabó el tiempo de juego de hoy. ¡Hasta mañana!',
+    changeImage: 'Cambiar imagen',
+    lookingClosely: 'Mirando de cerca...',
+    readyToPlay: '¿Listo para jugar?',
+    youSaid: (text: string) => `Tú: ${text}`,
+    typeInstead: 'O escribe aquí si el micrófono no funciona...',
+
+    endReasons: {
+        time: '¡Se acabó el tiempo de juego!',
+        turns: '¡Cuánto hemos hablado!',
+        silence: 'Todo se quedó en silencio, así que nos despedimos.',
+        buddy: 'Nos despedimos.',
+        budget: '¡Eso es todo por esta vez!',
+        allowance: '¡Se acabó el tiempo de juego de hoy!',
+    },
+    talkedFor: (duration: string) => `Hablamos durante ${duration}`,
+    toldMeThings: (count: number) => `Me contaste ${count} ${count === 1 ? 'cosa' : 'cosas'}`,
+    starsEarned: (count: number) => `Ganaste ${count} ${count === 1 ? 'estrella' : 'estrellas'}`,
+    duration: (minutes: number, seconds: number) => minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`,
+    playAgain: 'Jugar otra vez',
+
+    makeStory: 'Hacer nuestro cuento',
+    makingStory: 'Escribiendo nuestro cuento...',
+    readStory: 'Leer nuestro cuento',
+    storyFailed: '¡Vaya, el cuento se atascó! ¡Probemos otra vez!',
+    readToMe: 'Léemelo',
+    stopReading: 'Parar',
+    previousPage: 'Página anterior',
+    nextPage: 'Página siguiente',
+    pageOf: (page: number, total: number) => `Página ${page} de ${total}`,
+    printStory: 'Guardar para imprimir',
+    storyPictureAlt: 'Una imagen de nuestro cuento',
+    storybook: 'Cuento',
+    storyTemplate: {
+        title: (name: string | null) => (name ? `La aventura de ${name}` : 'Nuestra aventura'),
+        hero: 'nuestra estrella',
+        opening: (hero: string) => `Había una vez ${hero}, que encontró una imagen maravillosa e hizo un nuevo amigo.`,
+        idea: (hero: string, said: string) => `${hero} dijo: «${said}»`,
+        wonder: (hero: string) => `Luego ${hero} miró con atención y se preguntó qué pasaría después.`,
+        ending: (hero: string) => `Cuando terminó la aventura, ${hero} dijo adiós con la mano. ¡Fin!`,
+    },
+
+    errorTitle: '¡Ay! Algo se hizo pupa.',
+    errorFallback: 'Algo salió mal con la conexión mágica.',
+    tryAgain: 'Intentar de nuevo',
+    tryDemoInstead: 'O prueba el modo demo sin conexión',
+    changeApiKey: '(Cambiar mi clave de API)',
+    keepPlayingInDemo: 'Seguir jugando con el amigo de práctica',
+    errorDetails: 'Detalles para los mayores',
+    providerErrors: {
+        invalidKey: 'Mi llave mágica no funciona. ¿Me ayuda un adulto?',
+        sessionExpired: '¡Oh! Perdí el hilo de nuestra charla. ¡Empecemos otra con este dibujo!',
+        rateLimit: '¡Muchos amigos me están hablando ahora! Probemos otra vez en un ratito.',
+        network: 'Ahora no llego a mi magia. ¿Está encendido el internet?',
+        timeout: '¡Pensé tanto que me quedé dormido! ¿Lo intentamos otra vez?',
+        server: 'Mi máquina mágica está durmiendo la siesta. ¡Probemos pronto!',
+        refusal: 'Mmm, de eso no puedo hablar. ¡Elijamos otra cosa!',
+        unknown: 'Algo salió mal con la conexión mágica.',
+    },
+
+    imageErrors: {
+        unsupported: '¡Uy! No puedo abrir ese tipo de archivo. ¡Prueba con una foto o un dibujo!',
+        tooLarge: '¡Guau, esa imagen es demasiado grande para mí! ¿Pruebas con una más pequeña?',
+        unreadable: 'Mmm, esa imagen parece un poco rota. ¿Pruebas con otra?',
+    },
+
+    pictureGallery: 'Elige una imagen',
+    bundledPictures: 'Imágenes para explorar',
+    recentPictures: 'Tus imágenes',
+    noRecentPictures: 'Aquí aparecen las imágenes que subes o las fotos que haces.',
+    galleryPictureAlt: 'Una imagen para elegir',
+    uploadPicture: 'Subir',
+    takePhoto: 'Hacer una foto',
+    snap: '¡Clic!',
+    retake: 'Otra vez',
+    usePhoto: 'Usar esta foto',
+    cameraError: 'No puedo ver con la cámara. ¡Pide a un adulto que la permita!',
+    newPicture: 'Mostrar otra imagen',
+    tapToPoint: 'Toca la imagen para enseñarme algo',
+    pointedHere: '👉 ¡Cuéntame qué hay ahí!',
+    newPictureTurn: '(mostró una imagen nueva)',
+    removePicture: 'Quitar',
+    removePictureFailed: 'No pude quitar ese dibujo. ¡Probemos otra vez!',
+
+    pastChats: 'Charlas anteriores',
+    chatTitle: (date: string) => `Charla del ${date}`,
+    back: 'Volver a la lista',
+    close: 'Cerrar',
+    loading: 'Cargando...',
+    loadFailed: 'No se pudieron abrir las charlas guardadas en este navegador.',
+    deleteFailed: 'No se pudo borrar esta charla. Inténtalo de nuevo.',
+    noChats: 'Todavía no hay charlas. Aparecerán aquí después de la primera aventura.',
+    repliesFromChild: (count: number) => `${count} ${count === 1 ? 'respuesta' : 'respuestas'} de tu hijo/a`,
+    demoBadge: 'Demo',
+    replay: 'Reproducir',
+    delete: 'Borrar',
+    confirmDelete: '¿Borrar esta charla para siempre?',
+    chatImageAlt: 'La imagen de esta charla',
+    childLabel: 'Niño/a',
+    buddyLabel: 'Amigo',
+    safety: 'Seguridad',
+    intervention: (blocked: boolean, byChild: boolean, kind: string, detail: string) =>
+        `${blocked ? 'Se bloquearon' : 'Se quitaron'} palabras ${byChild ? 'de tu hijo/a' : 'del amigo'} (${kind}): ${detail}`,
+
+    buddyButton: (name: string) => `Amigo: ${name}`,
+    chooseBuddy: 'Elige un amigo',
+    newBuddy: 'Nuevo amigo',
+    editBuddy: 'Editar amigo',
+    edit: 'Editar',
+    useBuddy: 'Usar',
+    inUse: 'En uso',
+    preview: 'Escuchar',
+    builtInBadge: 'Incluido',
+    personaPreview: (name: string) => `¡Hola! Soy ${name}. ¡Vamos a mirar una imagen juntos!`,
+    personaName: 'Nombre',
+    personaAvatar: 'Avatar (un emoji)',
+    personaPersonality: 'Personalidad',
+    personaGreeting: 'Cómo saluda',
+    personaVoice: 'Voz (nombre o parte de él)',
+    automaticVoice: 'Automática',
+    personaPitch: 'Tono',
+    personaRate: 'Velocidad',
+    cancel: 'Cancelar',
+    confirmDeleteBuddy: '¿Borrar este amigo?',
+
+    whosPlaying: '¿Quién juega?',
+    justPlaying: 'Solo jugar',
+    manageProfiles: 'Perfiles',
+    childProfiles: 'Perfiles de niños',
+    addChild: 'Añadir un niño/a',
+    editChild: 'Editar niño/a',
+    childName: 'Nombre',
+    childAge: 'Edad',
+    childInterests: 'Intereses (separados por comas)',
+    noProfiles: 'Todavía no hay perfiles. Añade uno para que el amigo use el nombre de tu hijo/a y recuerde lo que comparte.',
+    profileSummary: (age: number, memories: number) => `${age} años · ${memories} ${memories === 1 ? 'recuerdo' : 'recuerdos'}`,
+    memoriesTitle: 'Lo que recuerda el amigo',
+    noMemories: 'Nada todavía. Después de una charla, el amigo guarda algunas cosas que contó tu hijo/a, como su color favorito.',
+    forget: 'Olvidar',
+    confirmDeleteChild: '¿Borrar este perfil y todo lo que el amigo recuerda de este niño/a?',
+
+    grownUps: 'Adultos',
+    parentGateTitle: 'Para adultos',
+    parentGateMath: (a: number, b: number) => `¿Cuánto es ${a} × ${b}?`,
+    parentGatePin: 'Escribe tu PIN',
+    parentGateWrong: 'No es correcto. Inténtalo de nuevo.',
+    parentGatePinUnavailable: 'Este navegador no puede comprobar el PIN aquí, así que responde a la multiplicación.',
+    unlock: 'Desbloquear',
+    parentSettings: 'Ajustes',
+    settingsProvider: 'Proveedor de IA',
+    settingsBuddy: 'Amigo, idioma y niños',
+    settingsChat: 'Cada charla',
+    chatMinutes: 'Minutos por charla',
+    chatTurns: 'Respuestas por charla',
+    blockedTopics: 'Evitar',
+    safetyTopics: {
+        violence: 'Violencia',
+        adult: 'Temas de adultos',
+        'self-harm': 'Autolesiones',
+        unkind: 'Palabras feas',
+    },
+    extraBlockedWords: 'Más palabras que bloquear (separadas por comas)',
+    redactPersonalInfo: 'Ocultar datos personales como teléfonos',
+    useModeration: 'Usar también la moderación del proveedor',
+    settingsAllowance: 'Tiempo de juego diario',
+    dailyLimit: 'Minutos por día (vacío para no limitar)',
+    playedToday: (duration: string) => `Jugado hoy: ${duration}`,
+    unlockToday: 'Desbloquear por el resto del día',
+    unlockedToday: 'Desbloqueado por hoy',
+    settingsSpeech: 'Voz',
+    listeningEngine: 'Escuchar',
+    talkingEngine: 'Hablar',
+    engineModes: {
+        auto: 'Automático',
+        browser: 'Navegador',
+        server: 'Servidor de voz',
+    },
+    bargeIn: 'Dejar que el niño/a interrumpa al amigo',
+    settingsPictures: 'Imágenes',
+    childCanPickPictures: 'Dejar que el niño/a cambie la imagen',
+    settingsPin: 'PIN',
+    pinInUse: 'Un PIN protege estos ajustes.',
+    pinNotSet: 'Una multiplicación protege estos ajustes. Pon un PIN si tu hijo/a ya sabe hacerlas.',
+    newPin: 'PIN nuevo (4-8 cifras)',
+    setPin: 'Guardar PIN',
+    removePin: 'Usar una multiplicación',
+    invalidPin: 'Usa de 4 a 8 cifras.',
+    pinUnavailable: 'Este navegador no puede guardar un PIN con esta conexión. Abre la app por https o en localhost.',
+
+    whatToPractise: 'Practicar',
+    noLesson: 'Solo charlar',
+    lessonGoals: {
+        counting: 'Contar',
+        colours: 'Colores',
+        shapes: 'Formas',
+        rhyming: 'Rimas',
+    },
+    starCount: (count: number) => `${count} ${count === 1 ? 'estrella' : 'estrellas'}`,
+    progressTitle: 'Progreso',
+    noProgress: 'Todavía no hay lecciones. Elige algo para practicar antes de empezar una charla.',
+    progressSummary: (sessions: number, stars: number) => `${sessions} ${sessions === 1 ? 'lección' : 'lecciones'} · ${stars} ⭐`,
+    lastPractised: (date: string) => `Última vez: ${date}`,
+
+    costs: 'Costes',
+    costToday: 'Hoy',
+    costAllChats: 'Todas las charlas guardadas',
+    tokenCount: (prompt: number, completion: number) => `${prompt.toLocaleString()} de entrada · ${completion.toLocaleString()} de salida (tokens)`,
+    inputPrice: 'Precio por 1M de tokens de entrada ($)',
+    outputPrice: 'Precio por 1M de tokens de salida ($)',
+    sessionCap: 'Terminar una charla cuando cueste ($, vacío para no limitar)',
+    costNote: 'Estimado a partir de los tokens que informa el proveedor. El modo demo es gratis.',
+
+    fallbackReply: '¡Qué interesante! Cuéntame más.',
+    thinkingFillers: [
+        'Mmm, déjame pensar...',
+        'Oh, dame un segundito...',
+        '¡Espera, se me cayó el gorro de pensar! Un momento...',
+    ],
+    silencePrompts: [
+        '¿Sigues ahí?',
+        '¿Hola? ¡Me encantaría saber qué piensas!',
+        '¡Tómate tu tiempo! ¿Qué ves en la imagen?',
+    ],
+    silenceGoodbye: 'Parece que estás ocupado. ¡No pasa nada! Jugamos otra vez pronto. ¡Adiós!',
+    wrapUpGoodbye: '¡Fue muy divertido! Gracias por jugar conmigo. ¡Adiós!',
+    redirectReplies: [
+        'Mmm, ¡hablemos de otra cosa! ¿Qué es lo que más te gusta de la imagen?',
+        '¡Tengo una idea mejor! ¿Me dices qué colores ves?',
+        '¡Vamos a otra aventura! ¿Qué crees que pasa después en la imagen?',
+    ],
+};
+
+export default es;
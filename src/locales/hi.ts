@@ -0,0 +1,260 @@
+import type { Messages } from '../lib/i18n';
+
+const hi: Messages = {
+    appTitle: '✨ जादुई दोस्त ✨',
+    language: 'भाषा',
+
+    providerOpenAI: 'OpenAI',
+    providerLocal: 'लोकल सर्वर',
+    providerDemo: 'डेमो',
+    serverUrlPlaceholder: 'सर्वर URL (http://localhost:11434/v1)',
+    modelPlaceholder: 'मॉडल (जैसे llava)',
+    openAIKeyPlaceholder: 'OpenAI API की डालें (sk-...)',
+    optionalKeyPlaceholder: 'API की (वैकल्पिक)',
+    save: 'सेव करें',
+    changeProvider: (label: string) => `प्रोवाइडर बदलें (${label})`,
+    invalidOpenAIKey: 'कृपया sk- से शुरू होने वाली सही OpenAI API की डालें',
+    invalidServerUrl: 'कृपया पूरा सर्वर URL डालें, जैसे http://localhost:11434/v1',
+    missingModel: 'कृपया वह मॉडल नाम डालें जो आपका सर्वर इस्तेमाल करता है',
+    loadDemoScript: 'डेमो स्क्रिप्ट लोड करें (JSON)',
+    demoScriptLoaded: (name: string) => `डेमो स्क्रिप्ट: ${name}`,
+    useBuiltInScripts: 'पहले से दी गई स्क्रिप्ट इस्तेमाल करें',
+    demoScriptInvalid: (problem: string) => `यह डेमो स्क्रिप्ट इस्तेमाल नहीं हो सकती: ${problem}`,
+    speechUnsupported: 'आपका ब्राउज़र आवाज़ पहचान को सपोर्ट नहीं करता। कृपया Chrome, Edge या Safari इस्तेमाल करें।',
+
+    imageAlt: 'बातचीत का विषय',
+    startAdventure: 'रोमांच शुरू करें!',
+    askGrownUp: 'किसी बड़े से मुझे तैयार करने को कहो!',
+    outOfPlaytime: 'आज के खेलने का समय खत्म। कल मिलते हैं!',
+    changeImage: 'तस्वीर बदलें',
+    lookingClosely: 'ध्यान से देख रहा हूँ...',
+    readyToPlay: 'खेलने के लिए तैयार हो?',
+    youSaid: (text: string) => `तुम: ${text}`,
+    typeInstead: 'अगर माइक काम नहीं कर रहा तो यहाँ लिखो...',
+
+    endReasons: {
+        time: 'खेलने का समय खत्म हो गया!',
+        turns: 'हमने कितनी सारी बातें कीं!',
+        silence: 'सब शांत हो गया, इसलिए हमने बाय कहा।',
+        buddy: 'हमने बाय कहा।',
+        budget: 'इस बार के लिए बस इतनी ही बातें!',
+        allowance: 'आज के खेलने का समय खत्म!',
+    },
+    talkedFor: (duration: string) => `हमने ${duration} बात की`,
+    toldMeThings: (count: number) => `तुमने मुझे ${count} बातें बताईं`,
+    starsEarned: (count: number) => `तुमने ${count} सितारे जीते`,
+    duration: (minutes: number, seconds: number) => minutes > 0 ? `${minutes} मिनट ${seconds} सेकंड` : `${seconds} सेकंड`,
+    playAgain: 'फिर से खेलें',
+
+    makeStory: 'हमारी कहानी बनाओ',
+    makingStory: 'हमारी कहानी लिख रहे हैं...',
+    readStory: 'हमारी कहानी पढ़ो',
+    storyFailed: 'अरे, कहानी अटक गई! चलो फिर से कोशिश करें!',
+    readToMe: 'मुझे पढ़कर सुनाओ',
+    stopReading: 'रुको',
+    previousPage: 'पिछला पन्ना',
+    nextPage: 'अगला पन्ना',
+    pageOf: (page: number, total: number) => `पन्ना ${page} / ${total}`,
+    printStory: 'छापने के लिए सहेजें',
+    storyPictureAlt: 'हमारी कहानी की एक तस्वीर',
+    storybook: 'कहानी की किताब',
+    storyTemplate: {
+        title: (name: string | null) => (name ? `${name} का चित्र-रोमांच` : 'हमारा चित्र-रोमांच'),
+        hero: 'नन्हे सितारे',
+        opening: (hero: string) => `एक बार की बात है, ${hero} को एक सुंदर तस्वीर और एक नया दोस्त मिला।`,
+        idea: (hero: string, said: string) => `${hero} ने कहा, "${said}"`,
+        wonder: (hero: string) => `फिर ${hero} ने ध्यान से देखा और सोचा कि आगे क्या होगा।`,
+        ending: (hero: string) => `रोमांच खत्म होने पर ${hero} ने हाथ हिलाकर अलविदा कहा। समाप्त!`,
+    },
+
+    errorTitle: 'ओह! कुछ गड़बड़ हो गई।',
+    errorFallback: 'जादुई कनेक्शन में कुछ गड़बड़ हो गई।',
+    tryAgain: 'फिर से कोशिश करें',
+    tryDemoInstead: 'या बिना कनेक्शन वाला डेमो मोड आज़माएँ',
+    changeApiKey: '(मेरी API की बदलें)',
+    keepPlayingInDemo: 'अभ्यास वाले दोस्त के साथ खेलते रहें',
+    errorDetails: 'बड़ों के लिए जानकारी',
+    providerErrors: {
+        invalidKey: 'मेरी जादुई चाबी काम नहीं कर रही। क्या कोई बड़ा मदद करेगा?',
+        sessionExpired: 'अरे! मैं हमारी बातचीत भूल गया। चलो इसी तस्वीर के साथ फिर से शुरू करें!',
+        rateLimit: 'अभी बहुत सारे दोस्त मुझसे बात कर रहे हैं! थोड़ी देर में फिर कोशिश करते हैं।',
+        network: 'मैं अभी अपने जादू तक नहीं पहुँच पा रहा। क्या इंटरनेट चालू है?',
+        timeout: 'मैं इतना सोचता रहा कि मुझे नींद आ गई! फिर से कोशिश करें?',
+        server: 'मेरी जादुई मशीन झपकी ले रही है। जल्दी फिर कोशिश करते हैं!',
+        refusal: 'हम्म, मैं उसके बारे में बात नहीं कर सकता। चलो कुछ और चुनते हैं!',
+        unknown: 'जादुई कनेक्शन में कुछ गड़बड़ हो गई।',
+    },
+
+    imageErrors: {
+        unsupported: 'अरे! मैं इस तरह की फ़ाइल नहीं खोल सकता। कोई फ़ोटो या ड्रॉइंग आज़माओ!',
+        tooLarge: 'वाह, यह तस्वीर मेरे लिए बहुत बड़ी है! कोई छोटी तस्वीर आज़माओगे?',
+        unreadable: 'हम्म, यह तस्वीर थोड़ी टूटी हुई लगती है। कोई और आज़माओगे?',
+    },
+
+    pictureGallery: 'तस्वीर चुनो',
+    bundledPictures: 'देखने के लिए तस्वीरें',
+    recentPictures: 'तुम्हारी तस्वीरें',
+    noRecentPictures: 'जो तस्वीरें तुम अपलोड करोगे या खींचोगे, वे यहाँ दिखेंगी।',
+    galleryPictureAlt: 'चुनने के लिए एक तस्वीर',
+    uploadPicture: 'अपलोड करें',
+    takePhoto: 'फ़ोटो खींचो',
+    snap: 'क्लिक!',
+    retake: 'फिर से',
+    usePhoto: 'यह फ़ोटो लो',
+    cameraError: 'मैं कैमरे से देख नहीं पा रहा। किसी बड़े से कैमरा चालू करने को कहो!',
+    newPicture: 'नई तस्वीर दिखाओ',
+    tapToPoint: 'कुछ दिखाने के लिए तस्वीर पर टैप करो',
+    pointedHere: '👉 बताओ, वहाँ क्या है!',
+    newPictureTurn: '(नई तस्वीर दिखाई)',
+    removePicture: 'हटाएँ',
+    removePictureFailed: 'मैं वह तस्वीर हटा नहीं पाया। चलो फिर से कोशिश करें!',
+
+    pastChats: 'पिछली बातचीत',
+    chatTitle: (date: string) => `${date} की बातचीत`,
+    back: 'सूची पर वापस',
+    close: 'बंद करें',
+    loading: 'लोड हो रहा है...',
+    loadFailed: 'इस ब्राउज़र में सेव की गई बातचीत नहीं खुल सकी।',
+    deleteFailed: 'यह बातचीत मिटाई नहीं जा सकी। फिर से कोशिश करें।',
+    noChats: 'अभी कोई बातचीत नहीं है। पहले रोमांच के बाद वे यहाँ दिखेंगी।',
+    repliesFromChild: (count: number) => `आपके बच्चे के ${count} जवाब`,
+    demoBadge: 'डेमो',
+    replay: 'फिर से सुनें',
+    delete: 'हटाएँ',
+    confirmDelete: 'क्या यह बातचीत हमेशा के लिए हटानी है?',
+    chatImageAlt: 'इस बातचीत की तस्वीर',
+    childLabel: 'बच्चा',
+    buddyLabel: 'दोस्त',
+    safety: 'सुरक्षा',
+    intervention: (blocked: boolean, byChild: boolean, kind: string, detail: string) =>
+        `${byChild ? 'आपके बच्चे' : 'दोस्त'} के शब्द ${blocked ? 'रोके गए' : 'हटाए गए'} (${kind}): ${detail}`,
+
+    buddyButton: (name: string) => `दोस्त: ${name}`,
+    chooseBuddy: 'दोस्त चुनें',
+    newBuddy: 'नया दोस्त',
+    editBuddy: 'दोस्त बदलें',
+    edit: 'बदलें',
+    useBuddy: 'चुनें',
+    inUse: 'चुना हुआ',
+    preview: 'सुनें',
+    builtInBadge: 'पहले से',
+    personaPreview: (name: string) => `नमस्ते! मैं ${name} हूँ। चलो साथ में एक तस्वीर देखते हैं!`,
+    personaName: 'नाम',
+    personaAvatar: 'अवतार (एक इमोजी)',
+    personaPersonality: 'स्वभाव',
+    personaGreeting: 'नमस्ते कैसे कहता है',
+    personaVoice: 'आवाज़ (नाम या उसका हिस्सा)',
+    automaticVoice: 'अपने आप',
+    personaPitch: 'पिच',
+    personaRate: 'गति',
+    cancel: 'रद्द करें',
+    confirmDeleteBuddy: 'क्या यह दोस्त हटाना है?',
+
+    whosPlaying: 'कौन खेल रहा है?',
+    justPlaying: 'बस खेलना है',
+    manageProfiles: 'प्रोफ़ाइल',
+    childProfiles: 'बच्चों की प्रोफ़ाइल',
+    addChild: 'बच्चा जोड़ें',
+    editChild: 'बच्चे की जानकारी बदलें',
+    childName: 'नाम',
+    childAge: 'उम्र',
+    childInterests: 'पसंद (कॉमा से अलग करें)',
+    noProfiles: 'अभी कोई प्रोफ़ाइल नहीं है। एक जोड़ें ताकि दोस्त आपके बच्चे का नाम ले सके और उसकी बातें याद रख सके।',
+    profileSummary: (age: number, memories: number) => `उम्र ${age} · ${memories} यादें`,
+    memoriesTitle: 'दोस्त को क्या याद है',
+    noMemories: 'अभी कुछ नहीं। बातचीत के बाद दोस्त आपके बच्चे की कुछ बातें याद रखता है, जैसे पसंदीदा रंग।',
+    forget: 'भूल जाएँ',
+    confirmDeleteChild: 'क्या यह प्रोफ़ाइल और इस बच्चे के बारे में दोस्त की सारी यादें हटानी हैं?',
+
+    grownUps: 'बड़ों के लिए',
+    parentGateTitle: 'सिर्फ़ बड़ों के लिए',
+    parentGateMath: (a: number, b: number) => `${a} × ${b} कितना होता है?`,
+    parentGatePin: 'अपना PIN डालें',
+    parentGateWrong: 'यह सही नहीं है। फिर से कोशिश करें।',
+    parentGatePinUnavailable: 'यह ब्राउज़र यहाँ PIN नहीं जाँच सकता, इसलिए गुणा का सवाल हल करें।',
+    unlock: 'खोलें',
+    parentSettings: 'सेटिंग्स',
+    settingsProvider: 'AI प्रदाता',
+    settingsBuddy: 'दोस्त, भाषा और बच्चे',
+    settingsChat: 'हर बातचीत',
+    chatMinutes: 'हर बातचीत के मिनट',
+    chatTurns: 'हर बातचीत के जवाब',
+    blockedTopics: 'इनसे दूर रहें',
+    safetyTopics: {
+        violence: 'हिंसा',
+        adult: 'बड़ों के विषय',
+        'self-harm': 'खुद को नुकसान',
+        unkind: 'बुरे शब्द',
+    },
+    extraBlockedWords: 'और रोके जाने वाले शब्द (कॉमा से अलग करें)',
+    redactPersonalInfo: 'फ़ोन नंबर जैसी निजी जानकारी छिपाएँ',
+    useModeration: 'प्रदाता की मॉडरेशन जाँच भी करें',
+    settingsAllowance: 'रोज़ का खेलने का समय',
+    dailyLimit: 'हर दिन के मिनट (कोई सीमा नहीं तो खाली छोड़ें)',
+    playedToday: (duration: string) => `आज खेले: ${duration}`,
+    unlockToday: 'आज के बाकी दिन के लिए खोलें',
+    unlockedToday: 'आज के लिए खुला है',
+    settingsSpeech: 'आवाज़',
+    listeningEngine: 'सुनना',
+    talkingEngine: 'बोलना',
+    engineModes: {
+        auto: 'अपने आप',
+        browser: 'ब्राउज़र',
+        server: 'स्पीच सर्वर',
+    },
+    bargeIn: 'बच्चे को दोस्त को बीच में रोकने दें',
+    settingsPictures: 'तस्वीरें',
+    childCanPickPictures: 'बच्चे को तस्वीर बदलने दें',
+    settingsPin: 'PIN',
+    pinInUse: 'एक PIN इन सेटिंग्स की रक्षा करता है।',
+    pinNotSet: 'एक गुणा का सवाल इन सेटिंग्स की रक्षा करता है। अगर आपका बच्चा ऐसे सवाल कर लेता है तो PIN रखें।',
+    newPin: 'नया PIN (4-8 अंक)',
+    setPin: 'PIN रखें',
+    removePin: 'गुणा का सवाल इस्तेमाल करें',
+    invalidPin: '4 से 8 अंक इस्तेमाल करें।',
+    pinUnavailable: 'यह ब्राउज़र इस कनेक्शन पर PIN नहीं रख सकता। ऐप को https या localhost पर खोलें।',
+
+    whatToPractise: 'अभ्यास',
+    noLesson: 'बस बातें',
+    lessonGoals: {
+        counting: 'गिनती',
+        colours: 'रंग',
+        shapes: 'आकार',
+        rhyming: 'तुकबंदी',
+    },
+    starCount: (count: number) => `${count} सितारे`,
+    progressTitle: 'प्रगति',
+    noProgress: 'अभी कोई पाठ नहीं। बातचीत शुरू करने से पहले अभ्यास के लिए कुछ चुनें।',
+    progressSummary: (sessions: number, stars: number) => `${sessions} पाठ · ${stars} ⭐`,
+    lastPractised: (date: string) => `पिछली बार: ${date}`,
+
+    costs: 'खर्च',
+    costToday: 'आज',
+    costAllChats: 'सभी सेव की गई बातचीत',
+    tokenCount: (prompt: number, completion: number) => `${prompt.toLocaleString()} इनपुट · ${completion.toLocaleString()} आउटपुट टोकन`,
+    inputPrice: '10 लाख इनपुट टोकन की कीमत ($)',
+    outputPrice: '10 लाख आउटपुट टोकन की कीमत ($)',
+    sessionCap: 'इतना खर्च होने पर बातचीत खत्म करें ($, कोई सीमा नहीं तो खाली छोड़ें)',
+    costNote: 'प्रोवाइडर के बताए टोकन से अनुमान। डेमो मोड मुफ़्त है।',
+
+    fallbackReply: 'कितना मज़ेदार! मुझे और बताओ।',
+    thinkingFillers: [
+        'हम्म, मुझे सोचने दो...',
+        'ओह, एक सेकंड रुको...',
+        'अरे, मेरी सोचने वाली टोपी गिर गई! बस एक पल...',
+    ],
+    silencePrompts: [
+        'क्या तुम अभी भी वहाँ हो?',
+        'हैलो? मुझे जानना है कि तुम क्या सोचते हो!',
+        'आराम से सोचो! तुम्हें तस्वीर में क्या दिख रहा है?',
+    ],
+    silenceGoodbye: 'लगता है तुम व्यस्त हो। कोई बात नहीं! जल्दी फिर खेलेंगे। बाय बाय!',
+    wrapUpGoodbye: 'बहुत मज़ा आया! मेरे साथ खेलने के लिए धन्यवाद। बाय बाय!',
+    redirectReplies: [
+        'हम्म, चलो किसी और चीज़ के बारे में बात करते हैं! तस्वीर में तुम्हें सबसे अच्छा क्या लगा?',
+        'मेरे पास एक और अच्छा आइडिया है! बताओ तुम्हें कौन-कौन से रंग दिख रहे हैं?',
+        'चलो एक नए रोमांच पर चलते हैं! तस्वीर में आगे क्या होगा?',
+    ],
+};
+
+export default hi;
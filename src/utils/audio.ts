@@ -0,0 +1,86 @@
+// Loudness of a microphone stream, read on demand (RMS of the latest samples, 0..1)
+export const createLevelMeter = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    const read = () => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (const sample of samples) sum += sample * sample;
+        return Math.sqrt(sum / samples.length);
+    };
+
+    const close = () => {
+        audioContext.close().catch(() => undefined);
+    };
+
+    return { read, close };
+};
+
+// --- Talking over the buddy ---
+
+const VOICE_MIN_LEVEL = 0.03; // Quieter than this is never a voice
+const ECHO_MARGIN = 2.5; // A voice has to be this much louder than what the mic hears of the buddy
+const WARM_UP_MS = 400; // Learn how loud the buddy comes back through the mic before listening for the child
+const VOICE_SUSTAIN_MS = 300; // A cough or a bump shouldn't count
+const VOICE_CHECK_MS = 50;
+
+// Calls onVoice once when someone starts talking near the microphone while the buddy is speaking.
+// Echo cancellation doesn't cover speechSynthesis on most devices, so the mic still hears the buddy:
+// the threshold follows that echo (a running average of the quieter levels) instead of being fixed.
+// Returns a function that stops listening.
+export const watchForVoice = (onVoice: () => void) => {
+    let isStopped = false;
+    let release = () => {};
+
+    navigator.mediaDevices?.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false } })
+        .then(stream => {
+            if (isStopped) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+
+            const meter = createLevelMeter(stream);
+            const startedAt = Date.now();
+            let echoLevel = 0;
+            let voicedMs = 0;
+
+            const timer = setInterval(() => {
+                const level = meter.read();
+                if (Date.now() - startedAt < WARM_UP_MS) {
+                    echoLevel = Math.max(echoLevel, level);
+                    return;
+                }
+
+                const threshold = Math.max(VOICE_MIN_LEVEL, echoLevel * ECHO_MARGIN);
+                if (level > threshold) {
+                    voicedMs += VOICE_CHECK_MS;
+                } else {
+                    // Only quiet moments move the echo estimate, so the child's own voice can't raise it
+                    echoLevel = echoLevel * 0.95 + level * 0.05;
+                    voicedMs = Math.max(0, voicedMs - VOICE_CHECK_MS);
+                }
+
+                if (voicedMs >= VOICE_SUSTAIN_MS) {
+                    release();
+                    onVoice();
+                }
+            }, VOICE_CHECK_MS);
+
+            release = () => {
+                clearInterval(timer);
+                meter.close();
+                stream.getTracks().forEach(track => track.stop());
+                release = () => {};
+            };
+        })
+        .catch(e => console.warn("Couldn't listen for the child during speech", e));
+
+    return () => {
+        isStopped = true;
+        release();
+    };
+};
@@ -1,19 +1,258 @@
-export const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = (error) => reject(error);
+// Every picture goes through prepareImage before a model sees it: decoded (with EXIF orientation applied),
+// scaled down, and re-encoded through a canvas, which also drops EXIF/GPS and any other metadata.
+// SVGs come out as bitmaps, since vision models only take raster formats.
+
+import { clampRegion, type NormalizedPoint, type Region } from '../lib/pointing';
+
+export type ImageFormat = 'image/jpeg' | 'image/webp';
+
+export interface ImageOptions {
+    maxDimension: number; // Longest side in pixels after resizing
+    format: ImageFormat;
+    quality: number; // 0 - 1
+    maxFileBytes: number; // Bigger uploads are refused before we try to decode them
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+    maxDimension: 1024,
+    format: 'image/jpeg',
+    quality: 0.85,
+    maxFileBytes: 25 * 1024 * 1024,
+};
+
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/svg+xml'];
+const MAX_PIXELS = 80_000_000; // Decoding more than this can run a phone out of memory
+const SVG_FALLBACK_SIZE = 1024; // For SVGs that only have a viewBox
+
+export type ImageErrorReason = 'unsupported' | 'tooLarge' | 'unreadable';
+
+// The App turns the reason into a friendly message; the message here is for the console
+export class ImageError extends Error {
+    reason: ImageErrorReason;
+    constructor(reason: ImageErrorReason, message: string) {
+        super(message);
+        this.reason = reason;
+    }
+}
+
+const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
     });
+
+interface DecodedImage {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+    isVector: boolean;
+    close: () => void;
+}
+
+const HEADER_BYTES = 256 * 1024; // Enough to get past a JPEG's EXIF block to its size
+
+const isJpegFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+// The picture's size from its file header, so a huge one is refused before it's decoded.
+// Null when the header can't tell (an SVG, or a file that isn't what its type says).
+const readImageSize = async (blob: Blob): Promise<{ width: number; height: number } | null> => {
+    const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+    const text = (at: number, length: number) =>
+        at + length <= view.byteLength ? String.fromCharCode(...new Uint8Array(view.buffer, at, length)) : '';
+
+    if (view.byteLength >= 24 && view.getUint32(0) === 0x89504e47) {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (text(0, 4) === 'GIF8' && view.byteLength >= 10) {
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (text(0, 2) === 'BM' && view.byteLength >= 26) {
+        return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+    }
+    if (text(0, 4) === 'RIFF' && text(8, 4) === 'WEBP' && view.byteLength >= 30) {
+        const chunk = text(12, 4);
+        if (chunk === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        if (chunk === 'VP8L') {
+            const bits = view.getUint32(21, true);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === 'VP8X') {
+            const uint24 = (at: number) => view.getUint16(at, true) | (view.getUint8(at + 2) << 16);
+            return { width: uint24(24) + 1, height: uint24(27) + 1 };
+        }
+        return null;
+    }
+    if (view.byteLength >= 4 && view.getUint16(0) === 0xffd8) {
+        // Walk the segments to the frame header, which holds the size
+        let at = 2;
+        while (at + 9 <= view.byteLength) {
+            if (view.getUint8(at) !== 0xff) return null;
+            const marker = view.getUint8(at + 1);
+            if (marker === 0xff) {
+                at++; // Padding before a marker
+                continue;
+            }
+            if (isJpegFrame(marker)) return { width: view.getUint16(at + 7), height: view.getUint16(at + 5) };
+            at += 2 + view.getUint16(at + 2);
+        }
+    }
+    return null;
+};
+
+const decodeImage = async (blob: Blob): Promise<DecodedImage> => {
+    // createImageBitmap can't read SVG, but an <img> can
+    if (blob.type === 'image/svg+xml') {
+        const url = URL.createObjectURL(blob);
+        try {
+            const img = await loadImageElement(url);
+            return {
+                source: img,
+                width: img.naturalWidth || SVG_FALLBACK_SIZE,
+                height: img.naturalHeight || SVG_FALLBACK_SIZE,
+                isVector: true,
+                close: () => {},
+            };
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    // from-image applies the EXIF orientation, so sideways phone photos come out upright
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, isVector: false, close: () => bitmap.close() };
+};
+
+export const prepareImage = async (blob: Blob, options: ImageOptions = DEFAULT_IMAGE_OPTIONS): Promise<string> => {
+    if (!SUPPORTED_TYPES.includes(blob.type)) {
+        throw new ImageError('unsupported', `Unsupported image type: ${blob.type || 'unknown'}`);
+    }
+    if (blob.size > options.maxFileBytes) {
+        throw new ImageError('tooLarge', `Image is ${blob.size} bytes, the limit is ${options.maxFileBytes}`);
+    }
+
+    const size = await readImageSize(blob).catch(() => null);
+    if (size && size.width * size.height > MAX_PIXELS) {
+        throw new ImageError('tooLarge', `Image is ${size.width}x${size.height}`);
+    }
+
+    let image: DecodedImage;
+    try {
+        image = await decodeImage(blob);
+    } catch (e) {
+        throw new ImageError('unreadable', `Could not decode the image: ${e instanceof Error ? e.message : e}`);
+    }
+
+    try {
+        // For the pictures whose header didn't say
+        if (image.width * image.height > MAX_PIXELS) {
+            throw new ImageError('tooLarge', `Image is ${image.width}x${image.height}`);
+        }
+
+        // Photos only ever shrink; vector art is drawn at full size since it stays sharp
+        const longest = Math.max(image.width, image.height);
+        const scale = image.isVector ? options.maxDimension / longest : Math.min(1, options.maxDimension / longest);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(image.width * scale));
+        canvas.height = Math.max(1, Math.round(image.height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new ImageError('unreadable', "Canvas not supported");
+
+        if (options.format === 'image/jpeg') {
+            ctx.fillStyle = '#ffffff'; // JPEG has no transparency
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.drawImage(image.source, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL(options.format, options.quality);
+    } finally {
+        image.close();
+    }
 };
 
-export const fetchImageAsBase64 = async (url: string): Promise<string> => {
+export const convertFileToBase64 = (file: File, options?: ImageOptions): Promise<string> => prepareImage(file, options);
+
+export const fetchImageAsBase64 = async (url: string, options?: ImageOptions): Promise<string> => {
     const response = await fetch(url);
-    const blob = await response.blob();
+    if (!response.ok) throw new ImageError('unreadable', `Could not fetch ${url}: ${response.status}`);
+    return prepareImage(await response.blob(), options);
+};
+
+// Small JPEG preview of an image (data URL or same-origin path), for lists and exports
+export const createThumbnail = (src: string, maxSize = 160): Promise<string> => {
     return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Canvas not supported"));
+            ctx.fillStyle = '#ffffff'; // JPEG has no transparency
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        img.onerror = reject;
+        img.src = src;
     });
 };
+
+const CLOSE_UP_FRACTION = 0.4; // Of the picture's shorter side
+
+// A square close-up around the spot the child pointed at, circled, so a model that can see knows what they meant
+export const createCloseUp = async (src: string, point: NormalizedPoint, size = 384): Promise<string> => {
+    const img = await loadImageElement(src);
+    const width = img.naturalWidth || SVG_FALLBACK_SIZE;
+    const height = img.naturalHeight || SVG_FALLBACK_SIZE;
+    const side = Math.min(width, height) * CLOSE_UP_FRACTION;
+    const left = Math.min(Math.max(0, point.x * width - side / 2), width - side);
+    const top = Math.min(Math.max(0, point.y * height - side / 2), height - side);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas not supported");
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, size, size);
+    ctx.drawImage(img, left, top, side, side, 0, 0, size, size);
+
+    ctx.strokeStyle = '#ff1744';
+    ctx.lineWidth = size / 60;
+    ctx.beginPath();
+    ctx.arc((point.x * width - left) / side * size, (point.y * height - top) / side * size, size / 10, 0, Math.PI * 2);
+    ctx.stroke();
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+const CROP_MARGIN = 0.25; // Of the region's size, on each side, so there's a little of what's around it
+const MIN_CROP = 0.25; // Of the picture's size; anything smaller comes out as a blur
+
+// The part of a picture the buddy circled, with a margin, for the storybook
+export const createCrop = async (src: string, region: Region, maxSize = 640): Promise<string> => {
+    const img = await loadImageElement(src);
+    const width = img.naturalWidth || SVG_FALLBACK_SIZE;
+    const height = img.naturalHeight || SVG_FALLBACK_SIZE;
+    const cropWidth = Math.max(region.width * (1 + CROP_MARGIN * 2), MIN_CROP);
+    const cropHeight = Math.max(region.height * (1 + CROP_MARGIN * 2), MIN_CROP);
+    // Centred on the region, then pushed back inside the picture if it hangs over an edge
+    const crop = clampRegion({
+        x: Math.min(Math.max(0, region.x + region.width / 2 - cropWidth / 2), 1 - Math.min(1, cropWidth)),
+        y: Math.min(Math.max(0, region.y + region.height / 2 - cropHeight / 2), 1 - Math.min(1, cropHeight)),
+        width: cropWidth,
+        height: cropHeight,
+    });
+
+    const scale = Math.min(1, maxSize / Math.max(crop.width * width, crop.height * height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(crop.width * width * scale));
+    canvas.height = Math.max(1, Math.round(crop.height * height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas not supported");
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, crop.x * width, crop.y * height, crop.width * width, crop.height * height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
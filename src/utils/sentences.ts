@@ -0,0 +1,30 @@
+// Splits streamed text into speakable sentences. Feed it deltas as they arrive;
+// it hands back each sentence once the punctuation and following space have shown up.
+const SENTENCE_END = /[^.!?।]*[.!?।]+["')\]]*\s+/g; // । is the Devanagari full stop
+
+export const createSentenceSplitter = () => {
+    let buffer = '';
+
+    const push = (delta: string): string[] => {
+        buffer += delta;
+        const sentences: string[] = [];
+
+        let consumed = 0;
+        for (const match of buffer.matchAll(SENTENCE_END)) {
+            const sentence = match[0].trim();
+            if (sentence) sentences.push(sentence);
+            consumed = match.index + match[0].length;
+        }
+        buffer = buffer.slice(consumed);
+        return sentences;
+    };
+
+    // Whatever is left once the stream is done (the last sentence often has no trailing space)
+    const flush = (): string | null => {
+        const rest = buffer.trim();
+        buffer = '';
+        return rest || null;
+    };
+
+    return { push, flush };
+};
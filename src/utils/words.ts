@@ -0,0 +1,7 @@
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match, so "bored" doesn't trip on "red" and "skill" doesn't trip on "kill".
+// \b only knows ASCII letters, so look for any letter or combining mark instead (Devanagari vowel signs are marks).
+// Returns the first word (or phrase) found in the text.
+export const findWord = (text: string, words: string[]) =>
+    words.find(word => word.trim() && new RegExp(`(?<![\\p{L}\\p{M}])${escapeRegExp(word.trim())}(?![\\p{L}\\p{M}])`, 'iu').test(text));